@@ -1,7 +1,9 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { OpenAI } from 'openai';
+import { LLMService } from '../llm/LLMService';
+import { KeyManager } from './KeyManager';
+import { describeDropped } from '../llm/PromptBuilder';
 
 export interface SearchContext {
     query: string;
@@ -45,44 +47,19 @@ export interface SemanticIndex {
 
 export class ContextSearchEngine {
     private context: vscode.ExtensionContext;
-    private openai: OpenAI | null = null;
+    private llm: LLMService;
+    private keys: KeyManager;
     private semanticIndex: Map<string, SemanticIndex> = new Map();
     private searchHistory: SearchResult[] = [];
     
     // Integration with existing systems
     private ddSystemPath = '/Users/dd';
-    private braveApiKey: string | null = null;
     private codexIntegration = true;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, llm: LLMService, keys: KeyManager) {
         this.context = context;
-        this.initializeAI();
-        this.loadExistingSystemIntegrations();
-    }
-
-    private initializeAI(): void {
-        const config = vscode.workspace.getConfiguration('qoder');
-        const apiKey = config.get<string>('openai.apiKey');
-        
-        if (apiKey) {
-            this.openai = new OpenAI({ apiKey });
-        }
-    }
-
-    private async loadExistingSystemIntegrations(): Promise<void> {
-        try {
-            // Load dd system environment variables
-            const envPath = path.join(this.ddSystemPath, '.env');
-            if (fs.existsSync(envPath)) {
-                const envContent = fs.readFileSync(envPath, 'utf-8');
-                const braveMatch = envContent.match(/BRAVE_API_KEY=(.+)/);
-                if (braveMatch) {
-                    this.braveApiKey = braveMatch[1].trim();
-                }
-            }
-        } catch (error) {
-            console.warn('Failed to load dd system integrations:', error);
-        }
+        this.llm = llm;
+        this.keys = keys;
     }
 
     async performSemanticSearch(query: string, workspacePath: string | null = null, options: Partial<SearchContext> = {}): Promise<void> {
@@ -117,7 +94,7 @@ export class ContextSearchEngine {
                 results.push(...memoryResults);
 
                 // Step 3: External search (Brave API integration)
-                if (searchContext.includeExternal && this.braveApiKey) {
+                if (searchContext.includeExternal && this.keys.hasKey('brave')) {
                     progress.report({ increment: 20, message: "Searching external resources..." });
                     const externalResults = await this.searchExternal(searchContext);
                     results.push(...externalResults);
@@ -290,14 +267,16 @@ export class ContextSearchEngine {
     private async searchExternal(context: SearchContext): Promise<SearchResult[]> {
         const results: SearchResult[] = [];
 
-        if (!this.braveApiKey) return results;
+        // Read per search so a key added through the key manager applies immediately
+        const braveApiKey = this.keys.getKey('brave');
+        if (!braveApiKey) return results;
 
         try {
             // Use Brave Search API (matching existing dd system integration)
             const searchQuery = `${context.query} ${context.language || ''} programming`;
             const response = await fetch(`https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(searchQuery)}&count=5`, {
                 headers: {
-                    'X-Subscription-Token': this.braveApiKey
+                    'X-Subscription-Token': braveApiKey
                 }
             });
 
@@ -354,25 +333,54 @@ export class ContextSearchEngine {
     }
 
     private async getCodexEnhancement(context: SearchContext, results: SearchResult[]): Promise<SearchResult | null> {
-        if (!this.openai) return null;
+        if (!this.llm.isConfigured('searchEnhancement')) return null;
 
         try {
-            const prompt = `
-Based on the search query "${context.query}" and these existing results:
-${results.slice(0, 3).map(r => `- ${r.title}: ${r.content.substring(0, 100)}...`).join('\n')}
-
-Provide a comprehensive code example or explanation that would help the developer.
+            // Results are listed best first, so trimming drops the weakest ones
+            const topResults = [...results]
+                .sort((a, b) => b.relevanceScore - a.relevanceScore)
+                .slice(0, 10);
+
+            const { prompt, dropped } = this.llm.createPromptBuilder('searchEnhancement', 1000)
+                .add({
+                    name: 'query',
+                    required: true,
+                    text: `
+Based on the search query "${context.query}"${topResults.length > 0 ? ' and the existing results below' : ''}:
+`
+                })
+                .add({
+                    name: 'search results',
+                    priority: 1,
+                    items: topResults.map(r => `- ${r.title}: ${r.content.substring(0, 300)}...`),
+                    wrap: body => `${body}\n`
+                })
+                .add({
+                    name: 'instructions',
+                    required: true,
+                    text: `Provide a comprehensive code example or explanation that would help the developer.
 Focus on practical implementation and best practices.
-`;
+`
+                })
+                .build();
+
+            if (dropped.length > 0) {
+                vscode.window.setStatusBarMessage(`Qoder: search context trimmed - ${describeDropped(dropped)}`, 10000);
+            }
 
-            const response = await this.openai.chat.completions.create({
-                model: 'gpt-4',
+            const { content: enhancement } = await this.llm.complete({
+                feature: 'searchEnhancement',
+                operation: 'search.enhancement',
                 messages: [{ role: 'user', content: prompt }],
                 temperature: 0.7,
-                max_tokens: 1000
+                maxTokens: 1000,
+                cache: {
+                    files: topResults
+                        .filter(r => r.filePath)
+                        .map(r => r.filePath!)
+                }
             });
 
-            const enhancement = response.choices[0]?.message?.content;
             if (enhancement) {
                 return {
                     id: `codex_${Date.now()}`,
@@ -0,0 +1,145 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { execFile } from 'child_process';
+
+export interface TaskCheckpoint {
+    commit: string;
+    createdAt: Date;
+}
+
+// Quest files are managed by Qoder itself and must survive a rollback
+const EXCLUDED_PREFIX = '.qoder/';
+
+const CHECKPOINT_AUTHOR = {
+    GIT_AUTHOR_NAME: 'Qoder',
+    GIT_AUTHOR_EMAIL: 'qoder@localhost',
+    GIT_COMMITTER_NAME: 'Qoder',
+    GIT_COMMITTER_EMAIL: 'qoder@localhost'
+};
+
+/**
+ * Snapshots the working tree as a commit under refs/qoder/ without
+ * touching the current branch, the user's index or stash. Snapshots are
+ * built in a temporary index, so untracked files are included and
+ * .gitignore is respected.
+ */
+export class GitCheckpoints {
+    async isAvailable(root: string): Promise<boolean> {
+        try {
+            return (await this.git(root, ['rev-parse', '--is-inside-work-tree'])).trim() === 'true';
+        } catch {
+            return false;
+        }
+    }
+
+    async create(root: string, questId: string, taskId: string, message: string): Promise<TaskCheckpoint> {
+        const tree = await this.withTemporaryIndex(root, env => this.writeWorkingTree(root, env));
+        const head = await this.git(root, ['rev-parse', '--verify', '-q', 'HEAD']).then(out => out.trim(), () => '');
+        const commit = (await this.git(
+            root,
+            ['commit-tree', tree, ...(head ? ['-p', head] : []), '-m', message],
+            CHECKPOINT_AUTHOR
+        )).trim();
+
+        await this.git(root, ['update-ref', this.getRef(questId, taskId), commit]);
+        return { commit, createdAt: new Date() };
+    }
+
+    /**
+     * Puts the working tree back to the checkpoint: changed and deleted
+     * files are restored, files created since are removed. Only paths
+     * under root are affected.
+     */
+    async restore(root: string, checkpoint: TaskCheckpoint): Promise<number> {
+        await this.git(root, ['cat-file', '-e', `${checkpoint.commit}^{commit}`]).catch(() => {
+            throw new Error(`Checkpoint ${checkpoint.commit.substring(0, 8)} no longer exists in this repository`);
+        });
+
+        return this.withTemporaryIndex(root, async env => {
+            const current = await this.writeWorkingTree(root, env);
+            const status = (await this.git(
+                root,
+                ['diff', '--name-status', '-z', '--no-renames', '--relative', checkpoint.commit, current, '--', '.'],
+                env
+            )).split('\0');
+
+            const toRestore: string[] = [];
+            const toRemove: string[] = [];
+            for (let i = 0; i + 1 < status.length; i += 2) {
+                const filePath = status[i + 1];
+                if (filePath.startsWith(EXCLUDED_PREFIX)) continue;
+
+                if (status[i] === 'A') {
+                    toRemove.push(filePath);
+                } else {
+                    toRestore.push(filePath);
+                }
+            }
+
+            if (toRestore.length > 0) {
+                await this.git(root, ['read-tree', checkpoint.commit], env);
+                await this.git(root, ['checkout-index', '-f', '-z', '--stdin'], env, toRestore.join('\0'));
+            }
+            for (const filePath of toRemove) {
+                fs.rmSync(path.join(root, filePath), { force: true });
+            }
+            return toRestore.length + toRemove.length;
+        });
+    }
+
+    async deleteAll(root: string, questId: string): Promise<void> {
+        const refs = await this.git(root, ['for-each-ref', '--format=%(refname)', `refs/qoder/${this.sanitize(questId)}/`]);
+        for (const ref of refs.split('\n').filter(Boolean)) {
+            await this.git(root, ['update-ref', '-d', ref]);
+        }
+    }
+
+    private async writeWorkingTree(root: string, env: NodeJS.ProcessEnv): Promise<string> {
+        await this.git(root, ['add', '-A', '--', '.'], env);
+        return (await this.git(root, ['write-tree'], env)).trim();
+    }
+
+    // Seeded from the real index so unchanged files are not re-hashed
+    private async withTemporaryIndex<T>(root: string, run: (env: NodeJS.ProcessEnv) => Promise<T>): Promise<T> {
+        const indexPath = path.join(os.tmpdir(), `qoder-index-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`);
+        const realIndex = path.resolve(root, (await this.git(root, ['rev-parse', '--git-path', 'index'])).trim());
+        if (fs.existsSync(realIndex)) {
+            fs.copyFileSync(realIndex, indexPath);
+        }
+
+        try {
+            return await run({ GIT_INDEX_FILE: indexPath });
+        } finally {
+            fs.rmSync(indexPath, { force: true });
+        }
+    }
+
+    private getRef(questId: string, taskId: string): string {
+        return `refs/qoder/${this.sanitize(questId)}/${this.sanitize(taskId)}`;
+    }
+
+    private sanitize(name: string): string {
+        return name.replace(/[^A-Za-z0-9_-]/g, '_');
+    }
+
+    private git(root: string, args: string[], env?: NodeJS.ProcessEnv, input?: string): Promise<string> {
+        return new Promise((resolve, reject) => {
+            const child = execFile('git', args, {
+                cwd: root,
+                env: { ...process.env, ...env },
+                timeout: 60000,
+                maxBuffer: 64 * 1024 * 1024
+            }, (error, stdout, stderr) => {
+                if (error) {
+                    reject(new Error(stderr.trim() || error.message));
+                } else {
+                    resolve(stdout);
+                }
+            });
+            if (input !== undefined) {
+                child.stdin?.end(input);
+            }
+        });
+    }
+}
\ No newline at end of file
@@ -0,0 +1,218 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+
+export type ApiKeyName = 'openai' | 'brave' | 'gemini';
+
+interface ApiKeyInfo {
+    label: string;
+    usage: string;
+    envVar: string;
+    setting?: string; // Legacy plain-text setting under the qoder section, migrated on startup
+}
+
+const API_KEYS: Record<ApiKeyName, ApiKeyInfo> = {
+    openai: {
+        label: 'OpenAI',
+        usage: 'Quests, inline chat and search enhancement (qoder.ai.provider = openai)',
+        envVar: 'OPENAI_API_KEY',
+        setting: 'openai.apiKey'
+    },
+    brave: {
+        label: 'Brave Search',
+        usage: 'External web results in context search',
+        envVar: 'BRAVE_API_KEY'
+    },
+    gemini: {
+        label: 'Gemini',
+        usage: 'DD system integration',
+        envVar: 'GEMINI_API_KEY'
+    }
+};
+
+const ENV_IMPORTED_KEY = 'qoder.importedEnvFiles';
+
+/**
+ * Keeps API keys in VS Code SecretStorage. Keys are mirrored in memory so
+ * subsystems can read them synchronously, and onDidChange fires whenever a
+ * key is added, replaced or removed (also from another window).
+ */
+export class KeyManager implements vscode.Disposable {
+    private keys: Map<ApiKeyName, string> = new Map();
+    private onDidChangeEmitter = new vscode.EventEmitter<ApiKeyName>();
+    private disposables: vscode.Disposable[] = [];
+
+    readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.disposables.push(
+            this.onDidChangeEmitter,
+            context.secrets.onDidChange(event => this.handleSecretChange(event.key)),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('qoder.openai.apiKey')) {
+                    this.migratePlaintextSettings();
+                }
+            })
+        );
+    }
+
+    async initialize(): Promise<void> {
+        for (const name of Object.keys(API_KEYS) as ApiKeyName[]) {
+            const value = await this.context.secrets.get(this.getSecretKey(name));
+            if (value) {
+                this.keys.set(name, value);
+            }
+        }
+        await this.migratePlaintextSettings();
+    }
+
+    getKey(name: ApiKeyName): string | undefined {
+        return this.keys.get(name);
+    }
+
+    hasKey(name: ApiKeyName): boolean {
+        return this.keys.has(name);
+    }
+
+    async setKey(name: ApiKeyName, value: string): Promise<void> {
+        const trimmed = value.trim();
+        if (!trimmed) {
+            await this.deleteKey(name);
+            return;
+        }
+
+        await this.context.secrets.store(this.getSecretKey(name), trimmed);
+        this.updateCache(name, trimmed);
+    }
+
+    async deleteKey(name: ApiKeyName): Promise<void> {
+        await this.context.secrets.delete(this.getSecretKey(name));
+        this.updateCache(name, undefined);
+    }
+
+    async manageKeys(): Promise<void> {
+        const selected = await vscode.window.showQuickPick(
+            (Object.keys(API_KEYS) as ApiKeyName[]).map(name => ({
+                label: `$(key) ${API_KEYS[name].label}`,
+                description: this.hasKey(name) ? 'Stored' : 'Not set',
+                detail: API_KEYS[name].usage,
+                name
+            })),
+            { placeHolder: 'Select an API key to set or remove' }
+        );
+        if (!selected) return;
+
+        const label = API_KEYS[selected.name].label;
+        if (this.hasKey(selected.name)) {
+            const action = await vscode.window.showQuickPick(['Replace', 'Remove'], {
+                placeHolder: `${label} API key is stored`
+            });
+            if (!action) return;
+
+            if (action === 'Remove') {
+                await this.deleteKey(selected.name);
+                vscode.window.showInformationMessage(`${label} API key removed`);
+                return;
+            }
+        }
+
+        const value = await vscode.window.showInputBox({
+            prompt: `Enter ${label} API key`,
+            password: true,
+            ignoreFocusOut: true,
+            validateInput: input => input.trim() ? null : 'API key cannot be empty'
+        });
+        if (!value) return;
+
+        await this.setKey(selected.name, value);
+        vscode.window.showInformationMessage(`${label} API key saved to secure storage`);
+    }
+
+    /**
+     * Imports keys from a dotenv file (e.g. the DD system's .env) once per
+     * file. Keys already in secure storage are left alone and the file
+     * itself is not modified.
+     */
+    async importFromEnvFile(envPath: string): Promise<void> {
+        const imported = this.context.globalState.get<string[]>(ENV_IMPORTED_KEY, []);
+        if (imported.includes(envPath) || !fs.existsSync(envPath)) return;
+
+        try {
+            const values = new Map<string, string>();
+            for (const line of fs.readFileSync(envPath, 'utf-8').split('\n')) {
+                const trimmed = line.trim();
+                const separator = trimmed.indexOf('=');
+                if (trimmed && !trimmed.startsWith('#') && separator > 0) {
+                    values.set(trimmed.substring(0, separator).trim(), trimmed.substring(separator + 1).trim());
+                }
+            }
+
+            for (const name of Object.keys(API_KEYS) as ApiKeyName[]) {
+                const value = values.get(API_KEYS[name].envVar);
+                if (value && !this.hasKey(name)) {
+                    await this.setKey(name, value);
+                }
+            }
+
+            await this.context.globalState.update(ENV_IMPORTED_KEY, [...imported, envPath]);
+        } catch (error) {
+            console.warn('Failed to import API keys from env file:', error);
+        }
+    }
+
+    // Moves keys out of plain-text settings in every scope they were written to
+    private async migratePlaintextSettings(): Promise<void> {
+        const config = vscode.workspace.getConfiguration('qoder');
+
+        for (const name of Object.keys(API_KEYS) as ApiKeyName[]) {
+            const setting = API_KEYS[name].setting;
+            if (!setting) continue;
+
+            const inspected = config.inspect<string>(setting);
+            const scopes: Array<[string | undefined, vscode.ConfigurationTarget]> = [
+                [inspected?.workspaceValue, vscode.ConfigurationTarget.Workspace],
+                [inspected?.globalValue, vscode.ConfigurationTarget.Global]
+            ];
+            const present = scopes.filter(([value]) => !!value);
+            if (present.length === 0) continue;
+
+            try {
+                // The most specific scope is the value the user was actually using
+                await this.setKey(name, present[0][0]!);
+                for (const [, target] of present) {
+                    await config.update(setting, undefined, target);
+                }
+                vscode.window.showInformationMessage(
+                    `${API_KEYS[name].label} API key moved from settings to secure storage`
+                );
+            } catch (error) {
+                console.warn(`Failed to migrate ${setting} to secure storage:`, error);
+            }
+        }
+    }
+
+    private async handleSecretChange(secretKey: string): Promise<void> {
+        const name = (Object.keys(API_KEYS) as ApiKeyName[]).find(key => this.getSecretKey(key) === secretKey);
+        if (!name) return;
+
+        this.updateCache(name, await this.context.secrets.get(secretKey));
+    }
+
+    private updateCache(name: ApiKeyName, value: string | undefined): void {
+        if (this.keys.get(name) === value) return;
+
+        if (value) {
+            this.keys.set(name, value);
+        } else {
+            this.keys.delete(name);
+        }
+        this.onDidChangeEmitter.fire(name);
+    }
+
+    private getSecretKey(name: ApiKeyName): string {
+        return `qoder.apiKey.${name}`;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
\ No newline at end of file
@@ -107,9 +107,23 @@ export class MemorySystem {
                     last_updated TEXT NOT NULL,
                     PRIMARY KEY (category, key)
                 )`,
+                `CREATE TABLE IF NOT EXISTS ai_usage (
+                    id TEXT PRIMARY KEY,
+                    feature TEXT NOT NULL,
+                    operation TEXT NOT NULL,
+                    provider TEXT NOT NULL,
+                    model TEXT NOT NULL,
+                    prompt_tokens INTEGER DEFAULT 0,
+                    completion_tokens INTEGER DEFAULT 0,
+                    tokens_estimated INTEGER DEFAULT 0,
+                    latency_ms INTEGER DEFAULT 0,
+                    cost REAL DEFAULT 0,
+                    timestamp TEXT NOT NULL
+                )`,
                 `CREATE INDEX IF NOT EXISTS idx_memory_type ON memory_entries(type)`,
                 `CREATE INDEX IF NOT EXISTS idx_memory_timestamp ON memory_entries(timestamp)`,
-                `CREATE INDEX IF NOT EXISTS idx_memory_importance ON memory_entries(importance)`
+                `CREATE INDEX IF NOT EXISTS idx_memory_importance ON memory_entries(importance)`,
+                `CREATE INDEX IF NOT EXISTS idx_usage_feature_timestamp ON ai_usage(feature, timestamp)`
             ];
 
             let completed = 0;
@@ -613,6 +627,11 @@ export class MemorySystem {
         }
     }
 
+    // Shared with other subsystems that persist into the memory database (e.g. the usage ledger)
+    getDatabase(): Database | null {
+        return this.database;
+    }
+
     private generateId(): string {
         return 'mem_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
     }
@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuestTask } from './QuestManager';
+import { ProjectStructure, RepoWikiGenerator } from './RepoWikiGenerator';
+
+export interface PathConflict {
+    taskId: string;
+    filePath: string;
+    message: string;
+}
+
+const MAX_DIRECTORIES = 40;
+const MAX_FILES_PER_DIRECTORY = 8;
+const MAX_SCRIPTS = 15;
+const DIGEST_TTL_MS = 60 * 1000; // Spec and task generation run back to back
+
+// Extensions grouped by language, to spot a .js file among .ts files
+const CODE_LANGUAGES: Record<string, string> = {
+    '.ts': 'TypeScript', '.tsx': 'TypeScript', '.mts': 'TypeScript', '.cts': 'TypeScript',
+    '.js': 'JavaScript', '.jsx': 'JavaScript', '.mjs': 'JavaScript', '.cjs': 'JavaScript',
+    '.py': 'Python', '.java': 'Java', '.kt': 'Kotlin', '.go': 'Go', '.rs': 'Rust',
+    '.rb': 'Ruby', '.php': 'PHP', '.cs': 'C#', '.swift': 'Swift'
+};
+
+/**
+ * What the model needs to know about the workspace to place files where
+ * they belong: a compact file tree, detected technologies and
+ * architecture, and package scripts. Also checks generated file paths
+ * against the files that actually exist.
+ */
+export class ProjectContext {
+    private cached: { root: string; digest: string; createdAt: number } | null = null;
+
+    constructor(private wikiGenerator: RepoWikiGenerator) {}
+
+    // Falls back to an empty digest when the workspace cannot be analyzed
+    async getDigest(root: string): Promise<string> {
+        if (this.cached && this.cached.root === root && Date.now() - this.cached.createdAt < DIGEST_TTL_MS) {
+            return this.cached.digest;
+        }
+
+        try {
+            const structure = await this.wikiGenerator.analyzeProject(root);
+            const digest = this.formatDigest(structure);
+            this.cached = { root, digest, createdAt: Date.now() };
+            return digest;
+        } catch (error) {
+            console.warn('Failed to analyze project for quest context:', error);
+            return '';
+        }
+    }
+
+    /**
+     * Flags file paths that leave the workspace, differ only in case from
+     * an existing file, point at a directory, sit in a directory that does
+     * not exist yet, or use a different language than the code around them.
+     */
+    findPathConflicts(tasks: QuestTask[], root: string): PathConflict[] {
+        const conflicts: PathConflict[] = [];
+        for (const task of tasks) {
+            for (const filePath of task.filePaths) {
+                const message = this.checkPath(filePath, root);
+                if (message) {
+                    conflicts.push({ taskId: task.id, filePath, message });
+                }
+            }
+        }
+        return conflicts;
+    }
+
+    private checkPath(filePath: string, root: string): string | undefined {
+        const relative = path.normalize(filePath.replace(/\\/g, '/'));
+        if (path.isAbsolute(filePath) || relative === '..' || relative.startsWith(`..${path.sep}`)) {
+            return 'points outside the workspace';
+        }
+
+        // Walk the path one segment at a time to find where it leaves the existing tree
+        const segments = relative.split(path.sep).filter(segment => segment && segment !== '.');
+        let current = root;
+        for (const [index, segment] of segments.entries()) {
+            const next = path.join(current, segment);
+            // Compare names exactly; existsSync ignores case on macOS and Windows
+            if (this.listDirectory(current).includes(segment)) {
+                current = next;
+                continue;
+            }
+
+            const sameIgnoringCase = this.listDirectory(current).find(name => name.toLowerCase() === segment.toLowerCase());
+            if (sameIgnoringCase) {
+                const existing = [...segments.slice(0, index), sameIgnoringCase].join('/');
+                return `differs only in case from existing ${existing}`;
+            }
+            if (index < segments.length - 1) {
+                return `${segments.slice(0, index + 1).join('/')}/ does not exist yet`;
+            }
+            return this.checkLanguage(segment, current, segments.slice(0, index).join('/'));
+        }
+
+        return fs.statSync(current).isDirectory() ? 'is an existing directory, not a file' : undefined;
+    }
+
+    private checkLanguage(fileName: string, directory: string, label: string): string | undefined {
+        const language = CODE_LANGUAGES[path.extname(fileName).toLowerCase()];
+        if (!language) return undefined;
+
+        const neighbours = this.listDirectory(directory)
+            .map(name => CODE_LANGUAGES[path.extname(name).toLowerCase()])
+            .filter(Boolean);
+        const others = new Set(neighbours);
+        if (neighbours.length < 2 || others.has(language) || others.size !== 1) return undefined;
+
+        return `is ${language} but the code in ${label || 'the workspace root'}/ is ${[...others][0]}`;
+    }
+
+    private listDirectory(directory: string): string[] {
+        try {
+            return fs.readdirSync(directory);
+        } catch {
+            return [];
+        }
+    }
+
+    private formatDigest(structure: ProjectStructure): string {
+        const byDirectory = new Map<string, string[]>();
+        for (const file of structure.files) {
+            const directory = path.dirname(file.path).replace(/\\/g, '/');
+            const key = directory === '.' ? './' : `${directory}/`;
+            byDirectory.set(key, [...byDirectory.get(key) || [], path.basename(file.path)]);
+        }
+
+        const directories = [...byDirectory.keys()].sort();
+        const treeLines = directories.slice(0, MAX_DIRECTORIES).map(directory => {
+            const files = byDirectory.get(directory)!.sort();
+            const more = files.length > MAX_FILES_PER_DIRECTORY ? ` (+${files.length - MAX_FILES_PER_DIRECTORY} more)` : '';
+            return `${directory} ${files.slice(0, MAX_FILES_PER_DIRECTORY).join(', ')}${more}`;
+        });
+        if (directories.length > MAX_DIRECTORIES) {
+            treeLines.push(`(+${directories.length - MAX_DIRECTORIES} more directories)`);
+        }
+
+        const scripts = Object.entries(structure.packageInfo?.scripts || {})
+            .slice(0, MAX_SCRIPTS)
+            .map(([name, command]) => `- ${name}: ${command}`);
+
+        return [
+            `Project: ${structure.packageInfo?.name || structure.name}`,
+            `Technologies: ${structure.technologies.join(', ') || 'unknown'}`,
+            `Architecture: ${structure.architecture}`,
+            ...(scripts.length > 0 ? ['Package scripts:', ...scripts] : []),
+            'Files by directory:',
+            ...treeLines
+        ].join('\n');
+    }
+}
\ No newline at end of file
@@ -0,0 +1,335 @@
+import * as vscode from 'vscode';
+import { QuestManager, QuestSpec } from './QuestManager';
+import { EstimateAccuracy, formatDuration, getEstimateAccuracy, getQuestStats, summarizeQuests } from './QuestStats';
+
+const MAX_ESTIMATE_MISSES = 5;
+
+/**
+ * Summary of all quests, active and archived: totals, time from approval
+ * to completion, re-run tasks and weekly throughput, with a searchable
+ * table of quests. Also reports how task estimates compared to tracked
+ * time in the open project. Re-renders whenever quest state changes.
+ */
+export class QuestDashboard implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | null = null;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(private questManager: QuestManager) {
+        this.disposables.push(this.questManager.onDidChangeQuests(() => this.update()));
+    }
+
+    show(): void {
+        if (this.panel) {
+            this.panel.reveal();
+            return;
+        }
+
+        this.panel = vscode.window.createWebviewPanel(
+            'qoder-quest-dashboard',
+            '📈 Quest Dashboard',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.panel.onDidDispose(() => {
+            this.panel = null;
+        });
+        this.panel.webview.onDidReceiveMessage(async message => {
+            try {
+                switch (message.command) {
+                    case 'open':
+                        await this.questManager.openQuest(message.questId);
+                        break;
+                    case 'restore':
+                        await this.questManager.restoreQuest(message.questId);
+                        break;
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Quest dashboard action failed: ${error}`);
+            }
+        });
+
+        this.update();
+    }
+
+    private update(): void {
+        if (!this.panel) return;
+
+        const quests = [...this.questManager.getActiveQuests(), ...this.questManager.getArchivedQuests()]
+            .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+        this.panel.webview.html = this.getDashboardHtml(quests, getEstimateAccuracy(this.questManager.getProjectQuests()));
+    }
+
+    private getDashboardHtml(quests: QuestSpec[], accuracy: EstimateAccuracy | undefined): string {
+        const summary = summarizeQuests(quests);
+        const maxWeekly = Math.max(1, ...summary.weekly.map(week => week.tasksCompleted));
+        const escape = (text: string) => text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+
+        const weeklyHtml = summary.weekly.map(week => `
+            <tr>
+                <td>${week.weekStart.toLocaleDateString()}</td>
+                <td>${week.questsCompleted}</td>
+                <td>
+                    <div class="bar" style="width: ${Math.round(week.tasksCompleted / maxWeekly * 100)}%"></div>
+                    ${week.tasksCompleted}
+                </td>
+            </tr>
+        `).join('');
+
+        const questsHtml = quests.map(quest => {
+            const stats = getQuestStats(quest);
+            const status = quest.cancelledAt ? 'cancelled' : quest.status;
+            const searchText = [quest.title, quest.description, ...quest.requirements].join(' ').toLowerCase();
+            return `
+                <tr data-search="${escape(searchText)}">
+                    <td><a href="#" data-quest-id="${escape(quest.id)}" onclick="send('open', this)">${escape(quest.title)}</a></td>
+                    <td>${status}${quest.archivedAt ? ' · archived' : ''}</td>
+                    <td>${stats.doneCount}/${stats.taskCount}${stats.skippedCount > 0 ? ` (${stats.skippedCount} skipped)` : ''}</td>
+                    <td>${stats.approvalToCompletionMs !== undefined ? formatDuration(stats.approvalToCompletionMs) : '—'}</td>
+                    <td>${stats.rerunTaskCount}</td>
+                    <td>${quest.archivedAt ? `<button data-quest-id="${escape(quest.id)}" onclick="send('restore', this)">Restore</button>` : ''}</td>
+                </tr>
+            `;
+        }).join('');
+
+        const formatRatio = (actual: number, estimate: number) => estimate > 0 ? `${(actual / estimate).toFixed(2)}×` : '—';
+        const byQuest = new Map<string, EstimateAccuracy['samples']>();
+        for (const sample of accuracy?.samples || []) {
+            byQuest.set(sample.questId, [...byQuest.get(sample.questId) || [], sample]);
+        }
+        const titles = new Map(quests.map(quest => [quest.id, quest.title]));
+        const estimateQuestsHtml = [...byQuest].map(([questId, samples]) => {
+            const estimated = samples.reduce((sum, sample) => sum + sample.estimateHours, 0);
+            const actual = samples.reduce((sum, sample) => sum + sample.actualHours, 0);
+            return `
+                <tr>
+                    <td><a href="#" data-quest-id="${escape(questId)}" onclick="send('open', this)">${escape(titles.get(questId) || questId)}</a></td>
+                    <td>${samples.length}</td>
+                    <td>${estimated.toFixed(1)}h</td>
+                    <td>${actual.toFixed(1)}h</td>
+                    <td>${formatRatio(actual, estimated)}</td>
+                </tr>
+            `;
+        }).join('');
+        // Furthest off in either direction: 2× over and 2× under count the same
+        const missesHtml = [...accuracy?.samples || []]
+            .sort((a, b) => Math.abs(Math.log(b.actualHours / b.estimateHours)) - Math.abs(Math.log(a.actualHours / a.estimateHours)))
+            .slice(0, MAX_ESTIMATE_MISSES)
+            .map(sample => `
+                <tr>
+                    <td>${escape(sample.title)}</td>
+                    <td>${escape(titles.get(sample.questId) || sample.questId)}</td>
+                    <td>${sample.estimateHours}h</td>
+                    <td>${formatDuration(sample.actualHours * 3600000)}</td>
+                    <td>${formatRatio(sample.actualHours, sample.estimateHours)}</td>
+                </tr>
+            `).join('');
+
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Quest Dashboard</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+        .header {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 20px;
+            border-bottom: 2px solid var(--vscode-panel-border);
+        }
+        .title {
+            font-size: 24px;
+            font-weight: bold;
+            margin: 0 0 10px 0;
+            color: var(--vscode-textLink-foreground);
+        }
+        .section {
+            margin: 30px 0;
+        }
+        .section-title {
+            font-size: 18px;
+            font-weight: 600;
+            color: var(--vscode-textLink-foreground);
+            margin: 0 0 15px 0;
+            border-left: 3px solid var(--vscode-button-background);
+            padding-left: 10px;
+        }
+        .cards {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 12px;
+        }
+        .card {
+            flex: 1;
+            min-width: 120px;
+            padding: 12px;
+            border-radius: 6px;
+            background: var(--vscode-inputValidation-infoBackground);
+        }
+        .card-value {
+            font-size: 22px;
+            font-weight: bold;
+        }
+        .card-label {
+            font-size: 12px;
+            opacity: 0.8;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 13px;
+        }
+        th, td {
+            text-align: left;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        th {
+            opacity: 0.8;
+            font-weight: 600;
+        }
+        .bar {
+            display: inline-block;
+            height: 10px;
+            margin-right: 6px;
+            background: var(--vscode-button-background);
+        }
+        input {
+            width: 100%;
+            box-sizing: border-box;
+            padding: 6px 8px;
+            margin-bottom: 10px;
+            color: var(--vscode-input-foreground);
+            background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, transparent);
+        }
+        button {
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+            border: none;
+            padding: 2px 8px;
+            cursor: pointer;
+        }
+        a {
+            color: var(--vscode-textLink-foreground);
+        }
+        .empty-state {
+            text-align: center;
+            padding: 40px 20px;
+            opacity: 0.6;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1 class="title">📈 Quest Dashboard</h1>
+    </div>
+
+    <div class="section">
+        <div class="cards">
+            <div class="card"><div class="card-value">${summary.active}</div><div class="card-label">Active</div></div>
+            <div class="card"><div class="card-value">${summary.completed}</div><div class="card-label">Completed</div></div>
+            <div class="card"><div class="card-value">${summary.cancelled}</div><div class="card-label">Cancelled</div></div>
+            <div class="card"><div class="card-value">${summary.archived}</div><div class="card-label">Archived</div></div>
+            <div class="card">
+                <div class="card-value">${summary.averageApprovalToCompletionMs !== undefined ? formatDuration(summary.averageApprovalToCompletionMs) : '—'}</div>
+                <div class="card-label">Avg. approval → completion</div>
+            </div>
+            <div class="card"><div class="card-value">${Math.round(summary.rerunRate * 100)}%</div><div class="card-label">Tasks re-run</div></div>
+        </div>
+    </div>
+
+    <div class="section">
+        <h2 class="section-title">📊 Weekly Throughput</h2>
+        <table>
+            <tr><th>Week of</th><th>Quests completed</th><th>Tasks completed</th></tr>
+            ${weeklyHtml}
+        </table>
+    </div>
+
+    <div class="section">
+        <h2 class="section-title">⏱ Estimates in This Project</h2>
+        ${accuracy ? `
+            <div class="cards">
+                <div class="card"><div class="card-value">${accuracy.samples.length}</div><div class="card-label">Tasks measured</div></div>
+                <div class="card"><div class="card-value">${accuracy.medianRatio.toFixed(2)}×</div><div class="card-label">Median tracked / estimate</div></div>
+                <div class="card"><div class="card-value">${Math.round(accuracy.withinRangeShare * 100)}%</div><div class="card-label">Within 25% of estimate</div></div>
+                <div class="card">
+                    <div class="card-value">${accuracy.actualHours.toFixed(1)}h / ${accuracy.estimatedHours.toFixed(1)}h</div>
+                    <div class="card-label">Tracked / estimated</div>
+                </div>
+            </div>
+            <table>
+                <tr><th>Quest</th><th>Tasks measured</th><th>Estimated</th><th>Tracked</th><th>Tracked / estimate</th></tr>
+                ${estimateQuestsHtml}
+            </table>
+            <h3>Furthest from the estimate</h3>
+            <table>
+                <tr><th>Task</th><th>Quest</th><th>Estimated</th><th>Tracked</th><th>Tracked / estimate</th></tr>
+                ${missesHtml}
+            </table>
+        ` : '<div class="empty-state">No completed tasks with an estimate and tracked time in this project yet.</div>'}
+    </div>
+
+    <div class="section">
+        <h2 class="section-title">🗂 Quests</h2>
+        ${quests.length > 0 ? `
+            <input id="search" placeholder="Search by title or requirement" oninput="filter(this.value)">
+            <table>
+                <tr><th>Quest</th><th>Status</th><th>Tasks</th><th>Approval → completion</th><th>Re-run tasks</th><th></th></tr>
+                ${questsHtml}
+            </table>
+        ` : '<div class="empty-state">No quests yet. Press Cmd+E to start one.</div>'}
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        function send(command, element) {
+            vscode.postMessage({ command, questId: element.dataset.questId });
+        }
+
+        // Every word must appear in the title, description or a requirement
+        function filter(query) {
+            const words = query.toLowerCase().split(/\\s+/).filter(Boolean);
+            document.querySelectorAll('tr[data-search]').forEach(row => {
+                row.style.display = words.every(word => row.dataset.search.includes(word)) ? '' : 'none';
+            });
+            vscode.setState({ query });
+        }
+
+        // The page is re-rendered when quests change; keep the search
+        const search = document.getElementById('search');
+        const state = vscode.getState();
+        if (search && state && state.query) {
+            search.value = state.query;
+            filter(state.query);
+        }
+    </script>
+</body>
+</html>
+`;
+    }
+
+    dispose(): void {
+        this.panel?.dispose();
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
\ No newline at end of file
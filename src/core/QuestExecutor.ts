@@ -0,0 +1,446 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuestSpec, QuestTask } from './QuestManager';
+import { QuestPlanner, isTaskDone } from './QuestPlanner';
+import { GitCheckpoints } from './GitCheckpoints';
+import { CommandResult, TaskVerifier } from './TaskVerifier';
+import { LLMService, createAbortController } from '../llm/LLMService';
+import { taskChangesSchema } from '../llm/schemas';
+
+export interface FileChange {
+    path: string; // Relative to the workspace folder
+    action: 'create' | 'modify' | 'delete';
+    content?: string; // Full new file content for create/modify
+}
+
+export interface TaskChangeSet {
+    summary: string;
+    changes: FileChange[];
+}
+
+// Context for asking the model to fix changes that failed verification
+interface FixRequest {
+    failures: CommandResult[];
+    changedPaths: string[];
+}
+
+interface ChangeItem extends vscode.QuickPickItem {
+    change: FileChange;
+}
+
+const PROPOSED_SCHEME = 'qoder-proposed';
+
+/**
+ * Runs an approved quest task by task. Each task's file changes are
+ * generated by the model, reviewed by the user and applied through a
+ * WorkspaceEdit; progress is persisted after every step so an interrupted
+ * quest continues where it stopped. Tasks with verification commands only
+ * complete once those pass, with failures sent back to the model to fix.
+ */
+export class QuestExecutor implements vscode.Disposable {
+    private proposedContents: Map<string, string> = new Map();
+    private running: Set<string> = new Set();
+    private activeTasks: Map<string, string> = new Map(); // questId -> id of the task being worked on
+    private checkpointsUnavailable: Set<string> = new Set(); // Roots already warned about
+    private planner = new QuestPlanner();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private llm: LLMService,
+        private persist: () => Promise<void>,
+        private checkpoints: GitCheckpoints,
+        private verifier: TaskVerifier
+    ) {
+        this.disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(PROPOSED_SCHEME, {
+                provideTextDocumentContent: uri => this.proposedContents.get(uri.toString()) || ''
+            })
+        );
+    }
+
+    isRunning(questId: string): boolean {
+        return this.running.has(questId);
+    }
+
+    // Tasks left in progress by a pause or an error are not being worked on
+    isWorkingOn(questId: string, taskId: string): boolean {
+        return this.activeTasks.get(questId) === taskId;
+    }
+
+    async execute(quest: QuestSpec): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            vscode.window.showWarningMessage('Open a folder to execute quest tasks. Progress is kept and the quest can be resumed later.');
+            return;
+        }
+        if (this.running.has(quest.id)) {
+            vscode.window.showInformationMessage(`Quest "${quest.title}" is already running`);
+            return;
+        }
+
+        this.running.add(quest.id);
+        quest.status = 'in-progress';
+        await this.persist();
+
+        try {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `🚀 ${quest.title}`,
+                cancellable: true
+            }, async (progress, token) => {
+                const controller = createAbortController(token);
+                const root = workspaceFolder.uri.fsPath;
+
+                let task = this.getNextTask(quest);
+                while (task) {
+                    const completed = quest.tasks.filter(isTaskDone).length;
+                    progress.report({ message: `Task ${completed + 1}/${quest.tasks.length}: ${task.title}` });
+
+                    this.activeTasks.set(quest.id, task.id);
+                    let finished: boolean;
+                    try {
+                        finished = await this.executeTask(quest, task, root, controller.signal);
+                    } finally {
+                        this.activeTasks.delete(quest.id);
+                    }
+                    if (!finished) {
+                        await this.persist(); // Saves the paused task's tracked time
+                        vscode.window.showInformationMessage(`Quest "${quest.title}" paused. Run "Qoder: Run Quest" to resume.`);
+                        return;
+                    }
+                    task = this.getNextTask(quest);
+                }
+
+                const remaining = quest.tasks.filter(t => !isTaskDone(t));
+                if (remaining.length === 0) {
+                    quest.status = 'completed';
+                    quest.completedAt = new Date();
+                    await this.persist();
+                    vscode.window.showInformationMessage(`🎉 Quest "${quest.title}" completed!`);
+                } else {
+                    vscode.window.showWarningMessage(
+                        `Quest "${quest.title}" stopped: ${remaining.length} task(s) wait on dependencies that cannot complete`
+                    );
+                }
+            });
+        } finally {
+            this.running.delete(quest.id);
+        }
+    }
+
+    // Returns false when the user paused execution instead of finishing the task
+    private async executeTask(quest: QuestSpec, task: QuestTask, root: string, signal: AbortSignal): Promise<boolean> {
+        task.status = 'in-progress';
+        await this.persist();
+
+        const maxFixAttempts = vscode.workspace.getConfiguration('qoder').get<number>('quest.verification.maxFixAttempts', 2);
+        const changedPaths = new Set<string>();
+        let fix: FixRequest | undefined;
+
+        for (let attempt = 0; ; attempt++) {
+            task.attempts = (task.attempts || 0) + 1;
+            let changeSet: TaskChangeSet;
+            try {
+                changeSet = await this.generateChanges(quest, task, root, signal, fix);
+            } catch (error) {
+                if (!signal.aborted) {
+                    vscode.window.showErrorMessage(`Task "${task.title}" failed: ${error}`);
+                }
+                return false;
+            }
+
+            const accepted = await this.reviewChanges(task, changeSet, root);
+            if (!accepted) {
+                return false;
+            }
+
+            // Fix attempts keep the first checkpoint so a rollback undoes the whole task
+            if (accepted.length > 0 && !task.checkpoint) {
+                await this.createCheckpoint(quest, task, root);
+            }
+
+            try {
+                await this.applyChanges(accepted, root);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to apply changes for "${task.title}": ${error}`);
+                return false;
+            }
+            accepted.forEach(change => changedPaths.add(change.path));
+
+            const failures = await this.verify(task, root, signal);
+            if (signal.aborted) {
+                return false;
+            }
+            if (failures.length === 0) {
+                break;
+            }
+
+            if (attempt < maxFixAttempts) {
+                vscode.window.showWarningMessage(
+                    `Verification failed for "${task.title}" (${failures.map(f => f.command).join(', ')}). Asking the model for a fix (${attempt + 1}/${maxFixAttempts})...`
+                );
+                fix = { failures, changedPaths: [...changedPaths] };
+                continue;
+            }
+
+            const choice = await vscode.window.showWarningMessage(
+                `"${task.title}" still fails verification: ${failures.map(f => `${f.command} (exit code ${f.exitCode ?? 'none'})`).join(', ')}`,
+                'Mark Completed Anyway',
+                'Pause'
+            );
+            if (choice !== 'Mark Completed Anyway') {
+                return false;
+            }
+            break;
+        }
+
+        task.status = 'completed';
+        task.completedAt = new Date();
+        await this.persist();
+        return true;
+    }
+
+    // A failed checkpoint is reported but does not stop the quest
+    private async createCheckpoint(quest: QuestSpec, task: QuestTask, root: string): Promise<void> {
+        if (!vscode.workspace.getConfiguration('qoder').get<boolean>('quest.gitCheckpoints', true)) return;
+
+        if (!await this.checkpoints.isAvailable(root)) {
+            if (!this.checkpointsUnavailable.has(root)) {
+                this.checkpointsUnavailable.add(root);
+                vscode.window.showWarningMessage('The workspace is not a git repository, so quest tasks cannot be rolled back');
+            }
+            return;
+        }
+
+        try {
+            task.checkpoint = await this.checkpoints.create(root, quest.id, task.id, `Qoder checkpoint before "${task.title}" (${quest.title})`);
+            await this.persist();
+        } catch (error) {
+            vscode.window.showWarningMessage(`Could not create a checkpoint for "${task.title}": ${error}`);
+        }
+    }
+
+    // Resolves to the failed commands; none when the task passed or has nothing to run
+    private async verify(task: QuestTask, root: string, signal: AbortSignal): Promise<CommandResult[]> {
+        if (!task.verifyCommands?.length) return [];
+        if (!vscode.workspace.getConfiguration('qoder').get<boolean>('quest.verification.enabled', true)) return [];
+
+        const { verification, failures } = await this.verifier.verify(task, root, signal);
+        if (signal.aborted) return [];
+
+        task.verification = verification;
+        await this.persist();
+        return failures;
+    }
+
+    // An interrupted task resumes first; otherwise the next unblocked task in dependency order
+    private getNextTask(quest: QuestSpec): QuestTask | undefined {
+        const resumed = quest.tasks.find(task => task.status === 'in-progress');
+        return resumed || this.planner.plan(quest.tasks).unblocked[0];
+    }
+
+    private async generateChanges(quest: QuestSpec, task: QuestTask, root: string, signal: AbortSignal, fix?: FixRequest): Promise<TaskChangeSet> {
+        const completedTasks = quest.tasks.filter(t => t.status === 'completed');
+        const currentFiles = [...new Set([...task.filePaths, ...fix?.changedPaths || []])]
+            .map(filePath => ({ filePath, absolutePath: this.resolveInWorkspace(root, filePath) }))
+            .filter(file => file.absolutePath && fs.existsSync(file.absolutePath) && fs.statSync(file.absolutePath).isFile())
+            .map(file => `--- ${file.filePath} ---\n${fs.readFileSync(file.absolutePath!, 'utf-8')}`);
+
+        // Existing file contents are the first thing to trim; the task itself must always be sent
+        const builder = this.llm.createPromptBuilder('quest', 4000)
+            .add({
+                name: 'task',
+                required: true,
+                text: `You are a senior developer implementing one task of a larger project.
+
+Project: ${quest.title}
+Description: ${quest.description}
+Requirements:
+- ${quest.requirements.join('\n- ')}
+
+Current task: ${task.title}
+${task.description}
+Files for this task: ${task.filePaths.join(', ') || '(none suggested)'}
+`
+            });
+        if (fix) {
+            builder.add({
+                name: 'verification failures',
+                required: true,
+                items: fix.failures.map(failure =>
+                    `$ ${failure.command} (exit code ${failure.exitCode ?? 'none'})\n${failure.output.slice(-3000)}`
+                ),
+                wrap: body => `Your previous changes for this task were applied, but these checks failed. Fix the cause:\n${body}\n`
+            });
+        }
+
+        const { prompt } = builder
+            .add({
+                name: 'completed tasks',
+                priority: 1,
+                items: completedTasks.map(t => `- ${t.title}`),
+                wrap: body => `Already completed:\n${body}\n`
+            })
+            .add({
+                name: 'current files',
+                priority: 2,
+                items: currentFiles,
+                wrap: body => `Current contents of existing files:\n${body}\n`
+            })
+            .add({
+                name: 'instructions',
+                required: true,
+                text: `Respond with JSON containing:
+- summary: one or two sentences describing the changes
+- changes: array of { path, action, content } where path is relative to the workspace root,
+  action is "create", "modify" or "delete", and content is the complete new file content for create and modify
+
+Only change files needed for this task. Response must be valid JSON.`
+            })
+            .build();
+
+        const changeSet = await this.llm.completeStructured<TaskChangeSet>({
+            feature: 'quest',
+            operation: 'quest.taskChanges',
+            messages: [{ role: 'user', content: prompt }],
+            temperature: 0.2,
+            maxTokens: 4000,
+            signal
+        }, taskChangesSchema);
+
+        // Drop changes that cannot be applied safely rather than failing the whole task
+        const valid = changeSet.changes.filter(change =>
+            this.resolveInWorkspace(root, change.path) !== null &&
+            (change.action === 'delete' || typeof change.content === 'string')
+        );
+        if (valid.length < changeSet.changes.length) {
+            vscode.window.showWarningMessage(
+                `Ignored ${changeSet.changes.length - valid.length} proposed change(s) outside the workspace or without content`
+            );
+        }
+        return { summary: changeSet.summary, changes: valid };
+    }
+
+    /**
+     * Lets the user pick which proposed changes to apply, with a diff
+     * against the current file for each. Resolves to null when dismissed.
+     */
+    private async reviewChanges(task: QuestTask, changeSet: TaskChangeSet, root: string): Promise<FileChange[] | null> {
+        if (changeSet.changes.length === 0) {
+            const choice = await vscode.window.showInformationMessage(
+                `No file changes proposed for "${task.title}": ${changeSet.summary}`,
+                'Mark Completed',
+                'Pause'
+            );
+            return choice === 'Mark Completed' ? [] : null;
+        }
+
+        const icons: Record<FileChange['action'], string> = { create: 'new-file', modify: 'edit', delete: 'trash' };
+        const items: ChangeItem[] = changeSet.changes.map(change => ({
+            label: `$(${icons[change.action]}) ${change.path}`,
+            description: change.action,
+            buttons: change.action === 'delete' ? [] : [{ iconPath: new vscode.ThemeIcon('diff'), tooltip: 'Show diff' }],
+            change
+        }));
+
+        const quickPick = vscode.window.createQuickPick<ChangeItem>();
+        quickPick.title = `Review changes: ${task.title}`;
+        quickPick.placeholder = `${changeSet.summary} - select the changes to apply (Esc pauses the quest)`;
+        quickPick.canSelectMany = true;
+        quickPick.ignoreFocusOut = true;
+        quickPick.items = items;
+        quickPick.selectedItems = items;
+
+        return new Promise(resolve => {
+            let accepted = false;
+            quickPick.onDidTriggerItemButton(event => this.showDiff(event.item.change, root));
+            quickPick.onDidAccept(() => {
+                accepted = true;
+                resolve(quickPick.selectedItems.map(item => item.change));
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                if (!accepted) resolve(null);
+                quickPick.dispose();
+            });
+            quickPick.show();
+
+            const first = changeSet.changes.find(change => change.action !== 'delete');
+            if (first) {
+                this.showDiff(first, root);
+            }
+        });
+    }
+
+    private async showDiff(change: FileChange, root: string): Promise<void> {
+        const absolutePath = this.resolveInWorkspace(root, change.path)!;
+        const proposedUri = vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: '/' + change.path.replace(/\\/g, '/') });
+        this.proposedContents.set(proposedUri.toString(), change.content || '');
+
+        const originalUri = fs.existsSync(absolutePath)
+            ? vscode.Uri.file(absolutePath)
+            : vscode.Uri.from({ scheme: PROPOSED_SCHEME, path: '/empty' });
+
+        await vscode.commands.executeCommand(
+            'vscode.diff',
+            originalUri,
+            proposedUri,
+            `${change.path} (proposed ${change.action})`,
+            { preview: true, preserveFocus: true }
+        );
+    }
+
+    private async applyChanges(changes: FileChange[], root: string): Promise<void> {
+        if (changes.length === 0) return;
+
+        const edit = new vscode.WorkspaceEdit();
+        const written: vscode.Uri[] = [];
+
+        for (const change of changes) {
+            const uri = vscode.Uri.file(this.resolveInWorkspace(root, change.path)!);
+
+            if (change.action === 'delete') {
+                edit.deleteFile(uri, { ignoreIfNotExists: true });
+                continue;
+            }
+
+            if (fs.existsSync(uri.fsPath)) {
+                const document = await vscode.workspace.openTextDocument(uri);
+                const fullRange = new vscode.Range(
+                    document.positionAt(0),
+                    document.positionAt(document.getText().length)
+                );
+                edit.replace(uri, fullRange, change.content!);
+            } else {
+                edit.createFile(uri, { ignoreIfExists: true });
+                edit.insert(uri, new vscode.Position(0, 0), change.content!);
+            }
+            written.push(uri);
+        }
+
+        if (!await vscode.workspace.applyEdit(edit)) {
+            throw new Error('VS Code rejected the workspace edit');
+        }
+
+        for (const uri of written) {
+            const document = await vscode.workspace.openTextDocument(uri);
+            await document.save();
+        }
+    }
+
+    // Absolute path for a workspace-relative path, or null if it escapes the workspace
+    private resolveInWorkspace(root: string, filePath: string): string | null {
+        const absolutePath = path.resolve(root, filePath);
+        const relative = path.relative(root, absolutePath);
+        if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+            return null;
+        }
+        return absolutePath;
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+        this.proposedContents.clear();
+    }
+}
\ No newline at end of file
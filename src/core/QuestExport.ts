@@ -0,0 +1,168 @@
+import { QuestSpec, QuestTask } from './QuestManager';
+import { QUEST_SCHEMA_VERSION, StoredQuest, serializeQuestRecord } from './QuestSchema';
+import { formatDuration, getQuestStats } from './QuestStats';
+
+export type QuestExportFormat = 'markdown' | 'json' | 'csv';
+
+export interface QuestExport {
+    schemaVersion: number;
+    exportedAt: string;
+    quest: StoredQuest;
+}
+
+export const QUEST_EXPORT_EXTENSIONS: Record<QuestExportFormat, string> = {
+    markdown: 'md',
+    json: 'json',
+    csv: 'csv'
+};
+
+const CSV_COLUMNS = [
+    'Quest ID', 'Quest', 'Quest Status', 'Task ID', 'Task', 'Task Status', 'Files', 'Dependencies',
+    'Created', 'Completed', 'Attempts', 'Estimate (h)', 'Tracked (h)', 'Verification', 'Verified At', 'Verify Commands'
+];
+
+export function exportQuest(quest: QuestSpec, format: QuestExportFormat): string {
+    switch (format) {
+        case 'markdown':
+            return exportQuestMarkdown(quest);
+        case 'json':
+            return exportQuestJson(quest);
+        case 'csv':
+            return formatCsv([CSV_COLUMNS, ...questToRows(quest)]);
+    }
+}
+
+/**
+ * Renders a quest as a pull request description: the description,
+ * requirements as a list and tasks as a checklist with their files,
+ * completion times and verification results.
+ */
+export function exportQuestMarkdown(quest: QuestSpec): string {
+    const stats = getQuestStats(quest);
+    const lines = [`# ${singleLine(quest.title)}`, ''];
+    if (quest.description.trim()) {
+        lines.push(quest.description.trim(), '');
+    }
+
+    const timeline = [`created ${formatTimestamp(quest.createdAt)}`];
+    if (quest.approvedAt) timeline.push(`approved ${formatTimestamp(quest.approvedAt)}`);
+    if (quest.completedAt) timeline.push(`completed ${formatTimestamp(quest.completedAt)}`);
+    if (quest.cancelledAt) timeline.push(`cancelled ${formatTimestamp(quest.cancelledAt)}`);
+    lines.push(`**Status:** ${quest.cancelledAt ? 'cancelled' : quest.status} · ${stats.doneCount}/${stats.taskCount} tasks done · ${timeline.join(' · ')}`, '');
+
+    if (quest.requirements.length > 0) {
+        lines.push('## Requirements', '');
+        quest.requirements.forEach(requirement => lines.push(`- ${singleLine(requirement)}`));
+        lines.push('');
+    }
+
+    if (quest.tasks.length > 0) {
+        lines.push('## Tasks', '');
+        for (const task of quest.tasks) {
+            lines.push(formatTaskLine(task));
+            if (task.filePaths.length > 0) {
+                lines.push(`  - Files: ${task.filePaths.map(filePath => `\`${filePath}\``).join(', ')}`);
+            }
+            if (task.estimateHours || task.activeMs) {
+                lines.push(`  - Time: ${formatTime(task)}`);
+            }
+            if (task.verification) {
+                lines.push(`  - Verification: ${formatVerification(task)}`);
+            }
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+// Same record format as the quest store, so tools can read both
+export function exportQuestJson(quest: QuestSpec): string {
+    const data: QuestExport = {
+        schemaVersion: QUEST_SCHEMA_VERSION,
+        exportedAt: new Date().toISOString(),
+        quest: serializeQuestRecord(quest)
+    };
+    return JSON.stringify(data, null, 2);
+}
+
+/**
+ * One row per task, in the order of CSV_COLUMNS. These are the rows
+ * appended to the DD spreadsheet and written to CSV files below the
+ * column names.
+ */
+export function questToRows(quest: QuestSpec): string[][] {
+    const questStatus = quest.cancelledAt ? 'cancelled' : quest.status;
+    return quest.tasks.map(task => [
+        quest.id,
+        quest.title,
+        questStatus,
+        task.id,
+        task.title,
+        task.status,
+        task.filePaths.join('; '),
+        task.dependencies.join('; '),
+        toIso(task.createdAt),
+        task.completedAt ? toIso(task.completedAt) : '',
+        String(task.attempts || 0),
+        task.estimateHours ? String(task.estimateHours) : '',
+        task.activeMs ? (task.activeMs / 3600000).toFixed(2) : '',
+        task.verification ? (task.verification.passed ? 'passed' : 'failed') : '',
+        task.verification ? toIso(task.verification.ranAt) : '',
+        (task.verifyCommands || []).join('; ')
+    ].map(escapeFormula));
+}
+
+export function formatCsv(rows: string[][]): string {
+    return rows.map(row => row.map(formatCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatCsvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+// A leading = + - or @ is escaped so spreadsheets do not treat the text as a formula
+function escapeFormula(value: string): string {
+    return /^[=+\-@]/.test(value) ? `'${value}` : value;
+}
+
+function formatTaskLine(task: QuestTask): string {
+    const title = singleLine(task.title);
+    switch (task.status) {
+        case 'completed':
+            return `- [x] ${title}${task.completedAt ? ` (completed ${formatTimestamp(task.completedAt)})` : ''}`;
+        case 'skipped':
+            return `- [x] ~~${title}~~ (skipped)`;
+        case 'in-progress':
+            return `- [ ] ${title} (in progress)`;
+        default:
+            return `- [ ] ${title}`;
+    }
+}
+
+// A line break would end the heading or list item and turn the rest into a paragraph
+function singleLine(text: string): string {
+    return text.trim().replace(/\s*\r?\n\s*/g, ' ');
+}
+
+function formatTime(task: QuestTask): string {
+    const tracked = task.activeMs ? `${formatDuration(task.activeMs)} tracked` : 'not tracked';
+    return task.estimateHours ? `${tracked}, estimated ${task.estimateHours}h` : tracked;
+}
+
+function formatVerification(task: QuestTask): string {
+    const verification = task.verification!;
+    const commands = verification.results
+        .map(result => `\`${result.command}\` ${result.exitCode === 0 ? '✅' : `❌ (exit ${result.exitCode ?? 'none'})`}`)
+        .join(', ');
+    return `${verification.passed ? 'passed' : 'failed'} on ${formatTimestamp(verification.ranAt)}${commands ? ` — ${commands}` : ''}`;
+}
+
+// UTC, to the minute: the same in every reviewer's time zone
+function formatTimestamp(value: Date | string): string {
+    return `${toIso(value).slice(0, 16).replace('T', ' ')} UTC`;
+}
+
+function toIso(value: Date | string): string {
+    return new Date(value).toISOString();
+}
\ No newline at end of file
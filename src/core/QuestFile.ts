@@ -0,0 +1,475 @@
+import { QuestSpec, QuestTask } from './QuestManager';
+import { QuestTemplate, TemplateTask } from './QuestTemplates';
+import { QUEST_SCHEMA_VERSION } from './QuestSchema';
+
+type YamlValue = string | number | boolean | null | YamlValue[] | YamlMap;
+
+interface YamlMap {
+    [key: string]: YamlValue;
+}
+
+const QUEST_STATUSES: QuestSpec['status'][] = ['draft', 'approved', 'in-progress', 'completed'];
+const TASK_STATUSES: QuestTask['status'][] = ['pending', 'in-progress', 'completed', 'skipped'];
+
+// "key:" or "key: value" where the key is plain or quoted
+const MAPPING_ENTRY = /^([^\s"'#\[\]{}-][^:]*?|"(?:[^"\\]|\\.)*"|'(?:[^']|'')*'):(?=\s|$)/;
+
+/**
+ * Writes a quest as Markdown with YAML front matter. Structured fields
+ * live in the front matter; the title is the heading and the description
+ * the body, so the file reads naturally in a pull request.
+ */
+export function serializeQuest(quest: QuestSpec): string {
+    const lines = ['---'];
+    lines.push(`schemaVersion: ${QUEST_SCHEMA_VERSION}`);
+    lines.push(`id: ${formatScalar(quest.id, '')}`);
+    // The heading holds one trimmed line; any other title is kept here as well
+    if (!/^\S(.*\S)?$/.test(quest.title)) {
+        lines.push(`title: ${formatScalar(quest.title, '  ')}`);
+    }
+    lines.push(`status: ${quest.status}`);
+    lines.push(`createdAt: ${formatDate(quest.createdAt)}`);
+    if (quest.approvedAt) {
+        lines.push(`approvedAt: ${formatDate(quest.approvedAt)}`);
+    }
+    if (quest.completedAt) {
+        lines.push(`completedAt: ${formatDate(quest.completedAt)}`);
+    }
+    if (quest.cancelledAt) {
+        lines.push(`cancelledAt: ${formatDate(quest.cancelledAt)}`);
+    }
+    if (quest.archivedAt) {
+        lines.push(`archivedAt: ${formatDate(quest.archivedAt)}`);
+    }
+
+    if (quest.requirements.length === 0) {
+        lines.push('requirements: []');
+    } else {
+        lines.push('requirements:');
+        quest.requirements.forEach(requirement => lines.push(`  - ${formatScalar(requirement, '    ')}`));
+    }
+
+    if (quest.tasks.length === 0) {
+        lines.push('tasks: []');
+    } else {
+        lines.push('tasks:');
+        for (const task of quest.tasks) {
+            lines.push(`  - id: ${formatScalar(task.id, '')}`);
+            lines.push(`    title: ${formatScalar(task.title, '      ')}`);
+            lines.push(`    status: ${task.status}`);
+            lines.push(`    filePaths: ${formatList(task.filePaths)}`);
+            lines.push(`    dependencies: ${formatList(task.dependencies)}`);
+            lines.push(`    createdAt: ${formatDate(task.createdAt)}`);
+            if (task.completedAt) {
+                lines.push(`    completedAt: ${formatDate(task.completedAt)}`);
+            }
+            if (task.attempts) {
+                lines.push(`    attempts: ${task.attempts}`);
+            }
+            if (task.estimateHours) {
+                lines.push(`    estimateHours: ${task.estimateHours}`);
+            }
+            if (task.activeMs) {
+                lines.push(`    activeMs: ${Math.round(task.activeMs)}`);
+            }
+            if (task.checkpoint) {
+                lines.push('    checkpoint:');
+                lines.push(`      commit: ${task.checkpoint.commit}`);
+                lines.push(`      createdAt: ${formatDate(task.checkpoint.createdAt)}`);
+            }
+            if (task.verifyCommands?.length) {
+                lines.push(`    verifyCommands: ${formatList(task.verifyCommands)}`);
+            }
+            if (task.verification) {
+                lines.push('    verification:');
+                lines.push(`      passed: ${task.verification.passed}`);
+                lines.push(`      ranAt: ${formatDate(task.verification.ranAt)}`);
+                if (task.verification.results.length === 0) {
+                    lines.push('      results: []');
+                } else {
+                    lines.push('      results:');
+                    for (const result of task.verification.results) {
+                        lines.push(`        - command: ${JSON.stringify(result.command)}`);
+                        lines.push(`          exitCode: ${result.exitCode ?? 'null'}`);
+                    }
+                }
+            }
+            lines.push(`    description: ${formatScalar(task.description, '      ')}`);
+        }
+    }
+    lines.push('---', '', `# ${quest.title.split('\n')[0].trim()}`.trimEnd(), '', quest.description.trim(), '');
+
+    return lines.join('\n');
+}
+
+/**
+ * Reads a file written by serializeQuest, tolerating hand edits: missing
+ * fields get defaults and an unknown status falls back to draft/pending.
+ * Throws when the front matter is missing or not valid YAML, or when the
+ * file was written by a newer schema than this version understands.
+ */
+export function parseQuest(text: string, fallbackId: string): QuestSpec {
+    const { data, body } = parseFrontMatter(text);
+
+    // Files from before schemaVersion existed read the same as version 1
+    const schemaVersion = typeof data.schemaVersion === 'number' ? data.schemaVersion : 1;
+    if (schemaVersion > QUEST_SCHEMA_VERSION) {
+        throw new Error(`Written by a newer version of Qoder (schema ${schemaVersion}, supported ${QUEST_SCHEMA_VERSION})`);
+    }
+
+    // A title field wins over the heading, which cannot hold every title
+    const heading = /^#(?:[ \t]+(.*))?(?:\r?\n|$)/.exec(body);
+    const title = 'title' in data ? asString(data.title) : heading?.[1]?.trim() || fallbackId;
+    const description = (heading ? body.substring(heading[0].length) : body).trim();
+
+    return {
+        id: asString(data.id) || fallbackId,
+        title,
+        description,
+        requirements: asList(data.requirements, true),
+        tasks: (Array.isArray(data.tasks) ? data.tasks : []).filter(isMap).map((task, index) => ({
+            id: asString(task.id) || `task_${index + 1}`,
+            title: asString(task.title) || `Task ${index + 1}`,
+            description: asString(task.description),
+            status: asStatus(task.status, TASK_STATUSES, 'pending'),
+            filePaths: asList(task.filePaths),
+            dependencies: asList(task.dependencies),
+            createdAt: asDate(task.createdAt) || new Date(),
+            completedAt: asDate(task.completedAt),
+            checkpoint: isMap(task.checkpoint) && asString(task.checkpoint.commit)
+                ? { commit: asString(task.checkpoint.commit), createdAt: asDate(task.checkpoint.createdAt) || new Date() }
+                : undefined,
+            verifyCommands: asList(task.verifyCommands),
+            attempts: typeof task.attempts === 'number' && task.attempts > 0 ? Math.floor(task.attempts) : undefined,
+            estimateHours: typeof task.estimateHours === 'number' && task.estimateHours > 0 ? task.estimateHours : undefined,
+            activeMs: typeof task.activeMs === 'number' && task.activeMs > 0 ? Math.round(task.activeMs) : undefined,
+            verification: isMap(task.verification)
+                ? {
+                    passed: task.verification.passed === true,
+                    ranAt: asDate(task.verification.ranAt) || new Date(),
+                    results: (Array.isArray(task.verification.results) ? task.verification.results : []).filter(isMap).map(result => ({
+                        command: asString(result.command),
+                        exitCode: typeof result.exitCode === 'number' ? result.exitCode : null
+                    }))
+                }
+                : undefined
+        })),
+        status: asStatus(data.status, QUEST_STATUSES, 'draft'),
+        createdAt: asDate(data.createdAt) || new Date(),
+        approvedAt: asDate(data.approvedAt),
+        completedAt: asDate(data.completedAt),
+        cancelledAt: asDate(data.cancelledAt),
+        archivedAt: asDate(data.archivedAt)
+    };
+}
+
+/**
+ * Writes a quest template in the same layout as a quest file. The
+ * guidance for the model is the body, under the template name.
+ */
+export function serializeQuestTemplate(template: QuestTemplate): string {
+    const lines = ['---'];
+    lines.push(`description: ${formatScalar(template.description, '  ')}`);
+
+    if (template.parameters.length === 0) {
+        lines.push('parameters: []');
+    } else {
+        lines.push('parameters:');
+        for (const parameter of template.parameters) {
+            lines.push(`  - name: ${formatScalar(parameter.name, '')}`);
+            if (parameter.prompt) lines.push(`    prompt: ${formatScalar(parameter.prompt, '      ')}`);
+            if (parameter.default) lines.push(`    default: ${formatScalar(parameter.default, '      ')}`);
+        }
+    }
+
+    if (template.requirements.length === 0) {
+        lines.push('requirements: []');
+    } else {
+        lines.push('requirements:');
+        template.requirements.forEach(requirement => lines.push(`  - ${formatScalar(requirement, '    ')}`));
+    }
+
+    if (template.tasks.length === 0) {
+        lines.push('tasks: []');
+    } else {
+        lines.push('tasks:');
+        for (const task of template.tasks) {
+            lines.push(`  - id: ${formatScalar(task.id, '')}`);
+            lines.push(`    title: ${formatScalar(task.title, '      ')}`);
+            lines.push(`    filePaths: ${formatList(task.filePaths)}`);
+            lines.push(`    dependencies: ${formatList(task.dependencies)}`);
+            if (task.verifyCommands?.length) {
+                lines.push(`    verifyCommands: ${formatList(task.verifyCommands)}`);
+            }
+            lines.push(`    description: ${formatScalar(task.description, '      ')}`);
+        }
+    }
+    lines.push('---', '', `# ${template.name}`, '', template.guidance.trim(), '');
+
+    return lines.join('\n');
+}
+
+export function parseQuestTemplate(text: string, fallbackId: string): Omit<QuestTemplate, 'filePath'> {
+    const { data, body } = parseFrontMatter(text);
+    const heading = /^#[ \t]+(.+)(?:\r?\n|$)/.exec(body);
+
+    const tasks: TemplateTask[] = (Array.isArray(data.tasks) ? data.tasks : []).filter(isMap).map((task, index) => ({
+        id: asString(task.id) || `task_${index + 1}`,
+        title: asString(task.title) || `Task ${index + 1}`,
+        description: asString(task.description),
+        filePaths: asList(task.filePaths),
+        dependencies: asList(task.dependencies),
+        verifyCommands: asList(task.verifyCommands)
+    }));
+    if (tasks.length === 0) {
+        throw new Error('A template needs at least one task');
+    }
+
+    return {
+        id: fallbackId,
+        name: heading ? heading[1].trim() : asString(data.name) || fallbackId,
+        description: asString(data.description),
+        parameters: (Array.isArray(data.parameters) ? data.parameters : [])
+            .map(parameter => isMap(parameter)
+                ? { name: asString(parameter.name), prompt: asString(parameter.prompt), default: asString(parameter.default) }
+                : { name: asString(parameter), prompt: '', default: '' })
+            .filter(parameter => /^\w+$/.test(parameter.name)),
+        requirements: asList(data.requirements),
+        tasks,
+        guidance: (heading ? body.substring(heading[0].length) : body).trim()
+    };
+}
+
+function parseFrontMatter(text: string): { data: YamlMap; body: string } {
+    const match = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)([\s\S]*)$/.exec(text);
+    if (!match) {
+        throw new Error('Missing YAML front matter');
+    }
+
+    const data = parseYaml(match[1]);
+    if (!isMap(data)) {
+        throw new Error('Front matter must be a mapping');
+    }
+    return { data, body: match[2].replace(/^\s+/, '') };
+}
+
+// Plain when unambiguous, a literal block for multi-line text, otherwise JSON-quoted (valid YAML)
+function formatScalar(value: string, blockIndent: string): string {
+    if (/^[A-Za-z0-9_./][\w./@+-]*$/.test(value) && !/^(true|false|null|~|-?\d+(\.\d+)?)$/i.test(value)) {
+        return value;
+    }
+    if (value.includes('\n') && !value.includes('\r') && !/^\s/.test(value) && !/\n\n$/.test(value)) {
+        const chomp = value.endsWith('\n') ? '' : '-';
+        const body = value.replace(/\n$/, '').split('\n').map(line => line ? blockIndent + line : '');
+        return [`|${chomp}`, ...body].join('\n');
+    }
+    return JSON.stringify(value);
+}
+
+function formatList(values: string[]): string {
+    return `[${values.map(value => JSON.stringify(value)).join(', ')}]`;
+}
+
+// Dates revived from globalState JSON may still be strings
+function formatDate(value: Date | string): string {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? new Date().toISOString() : date.toISOString();
+}
+
+function isMap(value: YamlValue | undefined): value is YamlMap {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: YamlValue | undefined): string {
+    return value === null || value === undefined || typeof value === 'object' ? '' : String(value);
+}
+
+// Empty items are dropped unless keepEmpty is set, e.g. for requirements written empty on purpose
+function asList(value: YamlValue | undefined, keepEmpty = false): string[] {
+    if (!Array.isArray(value)) {
+        return asString(value) ? [asString(value)] : [];
+    }
+    return keepEmpty
+        ? value.filter(item => item !== null).map(asString)
+        : value.map(asString).filter(Boolean);
+}
+
+function asDate(value: YamlValue | undefined): Date | undefined {
+    const text = asString(value);
+    const date = new Date(text);
+    return text && !isNaN(date.getTime()) ? date : undefined;
+}
+
+function asStatus<T extends string>(value: YamlValue | undefined, allowed: T[], fallback: T): T {
+    const text = asString(value) as T;
+    return allowed.includes(text) ? text : fallback;
+}
+
+/**
+ * Parses the YAML subset quest files need: nested block mappings and
+ * sequences, plain/quoted scalars, flow sequences, and literal or folded
+ * block scalars. Anchors, tags and flow mappings are not supported.
+ */
+function parseYaml(source: string): YamlValue {
+    const lines = source.split(/\r?\n/);
+    let index = 0;
+
+    const indentOf = (line: string) => line.length - line.trimStart().length;
+    const isSequenceItem = (text: string) => text === '-' || text.startsWith('- ');
+    const skipIgnorable = () => {
+        while (index < lines.length && (!lines[index].trim() || lines[index].trim().startsWith('#'))) {
+            index++;
+        }
+    };
+
+    const parseNode = (minIndent: number): YamlValue => {
+        skipIgnorable();
+        if (index >= lines.length || indentOf(lines[index]) < minIndent) {
+            return null;
+        }
+        const indent = indentOf(lines[index]);
+        return isSequenceItem(lines[index].trim()) ? parseSequence(indent) : parseMapping(indent);
+    };
+
+    const parseSequence = (indent: number): YamlValue[] => {
+        const items: YamlValue[] = [];
+        for (skipIgnorable(); index < lines.length; skipIgnorable()) {
+            const text = lines[index].trim();
+            if (indentOf(lines[index]) !== indent || !isSequenceItem(text)) break;
+
+            const content = text.substring(1).trimStart();
+            const contentIndent = indent + text.length - content.length;
+            if (!content) {
+                index++;
+                items.push(parseNode(indent + 1));
+            } else if (MAPPING_ENTRY.test(content)) {
+                // "- key: value" opens a mapping whose keys line up with the first one
+                lines[index] = ' '.repeat(contentIndent) + content;
+                items.push(parseMapping(contentIndent));
+            } else {
+                index++;
+                items.push(parseValue(content, indent));
+            }
+        }
+        return items;
+    };
+
+    const parseMapping = (indent: number): YamlMap => {
+        const map: YamlMap = {};
+        for (skipIgnorable(); index < lines.length; skipIgnorable()) {
+            const text = lines[index].trim();
+            if (indentOf(lines[index]) !== indent || isSequenceItem(text)) break;
+
+            const entry = MAPPING_ENTRY.exec(text);
+            if (!entry) {
+                throw new Error(`Line ${index + 1}: expected "key: value"`);
+            }
+            index++;
+            map[parseInline(entry[1]) as string] = parseValue(text.substring(entry[0].length).trim(), indent);
+        }
+        if (index < lines.length && indentOf(lines[index]) > indent && lines[index].trim()) {
+            throw new Error(`Line ${index + 1}: unexpected indentation`);
+        }
+        return map;
+    };
+
+    const parseValue = (text: string, parentIndent: number): YamlValue => {
+        if (!text || text.startsWith('#')) {
+            skipIgnorable();
+            if (index >= lines.length) return null;
+            // Block sequences may sit at the same indentation as their key
+            const indent = indentOf(lines[index]);
+            if (indent > parentIndent || (indent === parentIndent && isSequenceItem(lines[index].trim()))) {
+                return parseNode(indent);
+            }
+            return null;
+        }
+        if (/^[|>][+-]?\s*(#.*)?$/.test(text)) {
+            return parseBlockScalar(text, parentIndent);
+        }
+        return parseInline(text);
+    };
+
+    const parseBlockScalar = (header: string, parentIndent: number): string => {
+        const collected: string[] = [];
+        let blockIndent = -1;
+        while (index < lines.length) {
+            const line = lines[index];
+            if (line.trim()) {
+                if (blockIndent < 0) blockIndent = indentOf(line);
+                if (indentOf(line) < blockIndent || indentOf(line) <= parentIndent) break;
+                collected.push(line.substring(blockIndent));
+            } else {
+                collected.push('');
+            }
+            index++;
+        }
+        while (collected.length > 0 && !collected[collected.length - 1]) {
+            collected.pop();
+        }
+
+        const text = header.startsWith('>')
+            ? collected.join('\n').replace(/([^\n])\n(?=[^\n])/g, '$1 ').replace(/\n(\n+)/g, '$1')
+            : collected.join('\n');
+        if (header.includes('-') || !text) return text;
+        return text + '\n';
+    };
+
+    return parseNode(0);
+}
+
+function parseInline(text: string): YamlValue {
+    const doubleQuoted = /^"((?:[^"\\]|\\.)*)"\s*(#.*)?$/.exec(text);
+    if (doubleQuoted) {
+        try {
+            return JSON.parse(`"${doubleQuoted[1]}"`);
+        } catch {
+            return doubleQuoted[1];
+        }
+    }
+
+    const singleQuoted = /^'((?:[^']|'')*)'\s*(#.*)?$/.exec(text);
+    if (singleQuoted) {
+        return singleQuoted[1].replace(/''/g, '\'');
+    }
+
+    const plain = text.replace(/\s+#.*$/, '').trim();
+    if (plain.startsWith('[') && plain.endsWith(']')) {
+        return splitFlowItems(plain.slice(1, -1)).map(parseInline);
+    }
+    if (plain === '' || plain === '~' || plain === 'null') return null;
+    if (plain === 'true' || plain === 'false') return plain === 'true';
+    if (/^-?\d+(\.\d+)?$/.test(plain)) return Number(plain);
+    return plain;
+}
+
+// Splits "a, 'b, c', \"d\"" on commas outside quotes
+function splitFlowItems(text: string): string[] {
+    const items: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            current += char;
+            if (char === '\\' && quote === '"') {
+                current += text[++i] ?? '';
+            } else if (char === quote) {
+                quote = null;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+            current += char;
+        } else if (char === ',') {
+            items.push(current.trim());
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (current.trim()) {
+        items.push(current.trim());
+    }
+    return items.filter(Boolean);
+}
\ No newline at end of file
@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createAbortController } from '../llm/LLMService';
+import { DDSystemIntegration } from '../integration/DDSystemIntegration';
+import { QuestSpec, QuestTask } from './QuestManager';
+import { isTaskDone } from './QuestPlanner';
+
+export type MarathonTaskStatus = 'in-progress' | 'completed' | 'skipped' | 'failed';
+
+export interface MarathonTaskResult {
+    taskId: string;
+    status: MarathonTaskStatus;
+    summary?: string;
+}
+
+// What cxmarathon receives in its --job file
+export interface MarathonJob {
+    version: 1;
+    quest: Pick<QuestSpec, 'id' | 'title' | 'description' | 'requirements'>;
+    workspace: string;
+    tasks: Array<Pick<QuestTask, 'id' | 'title' | 'description' | 'filePaths' | 'dependencies'> & { verifyCommands: string[] }>;
+}
+
+// The runner reports progress with lines like ::task-result:: {"taskId":"task_1","status":"completed"}
+const RESULT_LINE = /^::task-result::\s*(\{.*\})\s*$/;
+const MARATHON_STATUSES: MarathonTaskStatus[] = ['in-progress', 'completed', 'skipped', 'failed'];
+
+/**
+ * Hands an approved quest, or some of its tasks, to the DD system's
+ * cxmarathon runner as a structured job. The runner's output is kept in a
+ * per-quest log, and the task results it reports are applied to the quest
+ * as they arrive. Failed tasks go back to pending so they can be run again
+ * locally or in another handoff.
+ */
+export class QuestHandoff implements vscode.Disposable {
+    private running: Map<string, AbortController> = new Map();
+    private output = vscode.window.createOutputChannel('Qoder Marathon');
+
+    constructor(
+        private dd: DDSystemIntegration,
+        private persist: () => Promise<void>,
+        private logFolder: string
+    ) {}
+
+    isRunning(questId: string): boolean {
+        return this.running.has(questId);
+    }
+
+    getLogPath(questId: string): string {
+        return path.join(this.logFolder, `${questId}.log`);
+    }
+
+    async dispatch(quest: QuestSpec, tasks: QuestTask[]): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            vscode.window.showWarningMessage('Open the quest\'s workspace folder to hand it to Codex');
+            return;
+        }
+        if (!this.dd.isMarathonAvailable()) {
+            vscode.window.showErrorMessage(
+                `cxmarathon was not found in ${this.dd.getConfig().binPath}. Set "qoder.dd.systemPath" to your DD system folder.`
+            );
+            return;
+        }
+        if (this.running.has(quest.id)) {
+            vscode.window.showInformationMessage(`Quest "${quest.title}" is already with Codex`);
+            return;
+        }
+
+        const root = workspaceFolder.uri.fsPath;
+        const jobFile = path.join(this.logFolder, `${quest.id}.job.json`);
+        const logFile = this.getLogPath(quest.id);
+        const dispatched = new Map(tasks.map(task => [task.id, task]));
+        const reported = new Map<string, MarathonTaskStatus>();
+
+        // The quest only counts as handed off once the runner has a job to read
+        try {
+            fs.mkdirSync(this.logFolder, { recursive: true });
+            fs.writeFileSync(jobFile, JSON.stringify(this.createJob(quest, tasks, root), null, 2), 'utf-8');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to write the Codex marathon job: ${error}`);
+            return;
+        }
+
+        const log = (text: string) => {
+            fs.appendFileSync(logFile, text, 'utf-8');
+            this.output.append(text);
+        };
+        log(`\n=== ${new Date().toISOString()} Dispatched ${tasks.length} task(s) of "${quest.title}" ===\n`);
+        this.output.show(true);
+
+        quest.status = 'in-progress';
+        await this.persist();
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `🏃 Codex marathon: ${quest.title}`,
+            cancellable: true
+        }, async (progress, token) => {
+            const controller = createAbortController(token);
+            this.running.set(quest.id, controller);
+
+            // Results are applied one at a time so each is persisted before the next
+            let applying = Promise.resolve();
+            let pending = '';
+            const handleLine = (line: string) => {
+                const result = this.parseResult(line, dispatched);
+                if (!result) return;
+
+                reported.set(result.taskId, result.status);
+                applying = applying.then(() => this.applyResult(dispatched.get(result.taskId)!, result));
+                if (result.status === 'in-progress') {
+                    progress.report({ message: dispatched.get(result.taskId)!.title });
+                }
+            };
+            const onOutput = (text: string) => {
+                log(text);
+                const lines = (pending + text).split(/\r?\n/);
+                pending = lines.pop() || '';
+                lines.forEach(handleLine);
+            };
+
+            try {
+                const exitCode = await this.dd.runMarathonJob(jobFile, root, onOutput, controller.signal);
+                handleLine(pending); // The last line may have no trailing newline
+                await applying;
+                log(`=== cxmarathon ${exitCode === null ? 'stopped' : `exited with code ${exitCode}`} ===\n`);
+                await this.finish(quest, tasks, reported, exitCode, controller.signal.aborted);
+            } finally {
+                this.running.delete(quest.id);
+            }
+        });
+    }
+
+    private createJob(quest: QuestSpec, tasks: QuestTask[], root: string): MarathonJob {
+        return {
+            version: 1,
+            quest: {
+                id: quest.id,
+                title: quest.title,
+                description: quest.description,
+                requirements: [...quest.requirements]
+            },
+            workspace: root,
+            tasks: tasks.map(task => ({
+                id: task.id,
+                title: task.title,
+                description: task.description,
+                filePaths: [...task.filePaths],
+                // Dependencies outside the job are already done or the user chose to run without them
+                dependencies: task.dependencies.filter(id => tasks.some(other => other.id === id)),
+                verifyCommands: [...task.verifyCommands || []]
+            }))
+        };
+    }
+
+    // Ignores lines that are not results or that name a task outside the job
+    private parseResult(line: string, dispatched: Map<string, QuestTask>): MarathonTaskResult | undefined {
+        const match = RESULT_LINE.exec(line.trim());
+        if (!match) return undefined;
+
+        try {
+            const data = JSON.parse(match[1]);
+            if (typeof data.taskId !== 'string' || !dispatched.has(data.taskId) || !MARATHON_STATUSES.includes(data.status)) {
+                return undefined;
+            }
+            return { taskId: data.taskId, status: data.status, summary: typeof data.summary === 'string' ? data.summary : undefined };
+        } catch {
+            return undefined;
+        }
+    }
+
+    private async applyResult(task: QuestTask, result: MarathonTaskResult): Promise<void> {
+        switch (result.status) {
+            case 'in-progress':
+                task.status = 'in-progress';
+                task.attempts = (task.attempts || 0) + 1;
+                break;
+            case 'completed':
+            case 'skipped':
+                task.status = result.status;
+                task.completedAt = result.status === 'completed' ? new Date() : undefined;
+                break;
+            case 'failed':
+                task.status = 'pending';
+                task.completedAt = undefined;
+                break;
+        }
+        await this.persist();
+
+        if (result.status === 'failed') {
+            vscode.window.showWarningMessage(`Codex could not finish "${task.title}"${result.summary ? `: ${result.summary}` : ''}`);
+        }
+    }
+
+    private async finish(
+        quest: QuestSpec,
+        tasks: QuestTask[],
+        reported: Map<string, MarathonTaskStatus>,
+        exitCode: number | null,
+        cancelled: boolean
+    ): Promise<void> {
+        // Tasks the runner started but never finished can be picked up again
+        for (const task of tasks) {
+            if (task.status === 'in-progress') {
+                task.status = 'pending';
+            }
+        }
+        if (quest.tasks.every(isTaskDone)) {
+            quest.status = 'completed';
+            quest.completedAt = new Date();
+        }
+        await this.persist();
+
+        const count = (status: MarathonTaskStatus) => [...reported.values()].filter(value => value === status).length;
+        const missing = tasks.filter(task => !reported.has(task.id) || reported.get(task.id) === 'in-progress').length;
+        const summary = `${count('completed')} completed, ${count('skipped')} skipped, ${count('failed')} failed, ${missing} not finished`;
+
+        // Not awaited: the progress notification should close without waiting for the user
+        const message = cancelled
+            ? vscode.window.showInformationMessage(`Codex marathon for "${quest.title}" stopped (${summary})`, 'Show Log')
+            : exitCode === 0
+                ? vscode.window.showInformationMessage(`Codex marathon for "${quest.title}" finished: ${summary}`, 'Show Log')
+                : vscode.window.showWarningMessage(`cxmarathon exited with code ${exitCode ?? 'none'} for "${quest.title}" (${summary})`, 'Show Log');
+        message.then(choice => {
+            if (choice === 'Show Log') {
+                vscode.window.showTextDocument(vscode.Uri.file(this.getLogPath(quest.id)));
+            }
+        });
+    }
+
+    dispose(): void {
+        for (const controller of this.running.values()) {
+            controller.abort();
+        }
+        this.output.dispose();
+    }
+}
\ No newline at end of file
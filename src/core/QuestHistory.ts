@@ -0,0 +1,181 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuestSpec, QuestTask } from './QuestManager';
+
+export type RevisionSource = 'ai' | 'manual' | 'unknown';
+
+// The parts of a quest a revision captures; execution state is not versioned
+export interface QuestSnapshot {
+    title: string;
+    description: string;
+    requirements: string[];
+    tasks: Array<Pick<QuestTask, 'id' | 'title' | 'description' | 'filePaths' | 'dependencies' | 'verifyCommands'>>;
+}
+
+export interface QuestRevision {
+    number: number; // 1-based, in the order revisions were recorded
+    timestamp: string;
+    source: RevisionSource;
+    author: string; // Provider/model for AI revisions, user name for manual ones
+    summary: string;
+    snapshot: QuestSnapshot;
+}
+
+export interface DiffRow {
+    type: 'same' | 'added' | 'removed' | 'changed';
+    left?: string;
+    right?: string;
+}
+
+/**
+ * Append-only revision log per quest, one JSON line per revision. A
+ * revision is only written when the specification actually differs from
+ * the latest one.
+ */
+export class QuestHistory {
+    constructor(private getFolder: (questId: string) => string) {}
+
+    getRevisions(questId: string): QuestRevision[] {
+        const filePath = this.getFilePath(questId);
+        if (!fs.existsSync(filePath)) return [];
+
+        const revisions: QuestRevision[] = [];
+        for (const line of fs.readFileSync(filePath, 'utf-8').split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                revisions.push(JSON.parse(line));
+            } catch (error) {
+                console.warn(`Skipping unreadable revision of quest ${questId}:`, error);
+            }
+        }
+        return revisions;
+    }
+
+    record(quest: QuestSpec, source: RevisionSource, author: string, summary: string): QuestRevision | null {
+        const revisions = this.getRevisions(quest.id);
+        const snapshot = QuestHistory.snapshot(quest);
+        const latest = revisions[revisions.length - 1];
+        if (latest && JSON.stringify(latest.snapshot) === JSON.stringify(snapshot)) {
+            return null;
+        }
+
+        const revision: QuestRevision = {
+            number: (latest?.number || 0) + 1,
+            timestamp: new Date().toISOString(),
+            source,
+            author,
+            summary,
+            snapshot
+        };
+
+        try {
+            const filePath = this.getFilePath(quest.id);
+            fs.mkdirSync(path.dirname(filePath), { recursive: true });
+            fs.appendFileSync(filePath, JSON.stringify(revision) + '\n', 'utf-8');
+        } catch (error) {
+            console.warn(`Failed to record revision of quest ${quest.id}:`, error);
+            return null;
+        }
+        return revision;
+    }
+
+    // Quests from before revision history existed get their current state as revision 1
+    ensureBaseline(quest: QuestSpec): void {
+        if (this.getRevisions(quest.id).length === 0) {
+            this.record(quest, 'unknown', 'unknown', 'Earliest recorded version');
+        }
+    }
+
+    delete(questId: string): void {
+        try {
+            fs.rmSync(this.getFilePath(questId), { force: true });
+        } catch (error) {
+            console.warn(`Failed to delete revision history of quest ${questId}:`, error);
+        }
+    }
+
+    /**
+     * Line-based side-by-side diff of two snapshots. Runs of removed and
+     * added lines are paired up as changed rows.
+     */
+    diff(from: QuestSnapshot, to: QuestSnapshot): DiffRow[] {
+        const left = this.renderSnapshot(from);
+        const right = this.renderSnapshot(to);
+
+        // Longest common subsequence table, filled from the end
+        const lengths: number[][] = Array.from({ length: left.length + 1 }, () => new Array(right.length + 1).fill(0));
+        for (let i = left.length - 1; i >= 0; i--) {
+            for (let j = right.length - 1; j >= 0; j--) {
+                lengths[i][j] = left[i] === right[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+            }
+        }
+
+        const rows: DiffRow[] = [];
+        let removed: string[] = [];
+        let added: string[] = [];
+        const flush = () => {
+            for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+                const type = k < removed.length && k < added.length ? 'changed' : k < removed.length ? 'removed' : 'added';
+                rows.push({ type, left: removed[k], right: added[k] });
+            }
+            removed = [];
+            added = [];
+        };
+
+        let i = 0;
+        let j = 0;
+        while (i < left.length || j < right.length) {
+            if (i < left.length && j < right.length && left[i] === right[j]) {
+                flush();
+                rows.push({ type: 'same', left: left[i], right: right[j] });
+                i++;
+                j++;
+            } else if (j >= right.length || (i < left.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+                removed.push(left[i++]);
+            } else {
+                added.push(right[j++]);
+            }
+        }
+        flush();
+        return rows;
+    }
+
+    static snapshot(quest: QuestSpec): QuestSnapshot {
+        return {
+            title: quest.title,
+            description: quest.description,
+            requirements: [...quest.requirements],
+            tasks: quest.tasks.map(task => ({
+                id: task.id,
+                title: task.title,
+                description: task.description,
+                filePaths: [...task.filePaths],
+                dependencies: [...task.dependencies],
+                // Only set when present so revisions recorded before verification existed still compare equal
+                ...(task.verifyCommands?.length ? { verifyCommands: [...task.verifyCommands] } : {})
+            }))
+        };
+    }
+
+    private renderSnapshot(snapshot: QuestSnapshot): string[] {
+        const lines = [`Title: ${snapshot.title}`, '', 'Description:'];
+        lines.push(...snapshot.description.split('\n').map(line => `  ${line}`));
+        lines.push('', 'Requirements:');
+        lines.push(...snapshot.requirements.map(requirement => `  - ${requirement}`));
+        lines.push('', 'Tasks:');
+        snapshot.tasks.forEach((task, index) => {
+            lines.push(`  ${index + 1}. ${task.title} [${task.id}]`);
+            lines.push(...task.description.split('\n').filter(Boolean).map(line => `     ${line}`));
+            if (task.filePaths.length > 0) lines.push(`     Files: ${task.filePaths.join(', ')}`);
+            if (task.dependencies.length > 0) lines.push(`     Depends on: ${task.dependencies.join(', ')}`);
+            if (task.verifyCommands?.length) lines.push(`     Verify with: ${task.verifyCommands.join(', ')}`);
+        });
+        return lines;
+    }
+
+    private getFilePath(questId: string): string {
+        return path.join(this.getFolder(questId), `${questId}.jsonl`);
+    }
+}
\ No newline at end of file
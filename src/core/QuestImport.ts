@@ -0,0 +1,211 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuestTask } from './QuestManager';
+
+export type ImportedTask = Pick<QuestTask, 'id' | 'title' | 'description' | 'filePaths' | 'dependencies'> & { done: boolean };
+
+export interface ImportedBacklog {
+    title: string; // Empty when the text has no top-level heading
+    description: string;
+    requirements: string[];
+    tasks: ImportedTask[];
+}
+
+export interface TodoComment {
+    tag: 'TODO' | 'FIXME';
+    text: string;
+    filePath: string; // Relative to the workspace root
+    line: number; // 1-based
+}
+
+const CHECKBOX_ITEM = /^(\s*)([-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/;
+const LIST_ITEM = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*\s*$/;
+const REQUIREMENT_HEADING = /requirement|acceptance|criteria|goal|must/i;
+const PATH_SPAN = /`([^`\s]+)`/g;
+// The tag has to open a comment: after //, /*, #, <!-- or a leading * of a block comment
+const TODO_COMMENT = /(?:\/\/+|\/\*+|^\s*\*+|#+|<!--)\s*\b(TODO|FIXME)\b(?:\([^)]*\))?[:\s-]*(.*)$/;
+const SCAN_EXCLUDE = '{**/node_modules/**,**/.git/**,**/out/**,**/dist/**,**/build/**,**/coverage/**,**/.qoder/**,**/wiki/**}';
+const SCAN_EXTENSIONS = new Set([
+    '.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.py', '.java', '.kt', '.go', '.rs', '.rb', '.php',
+    '.cs', '.swift', '.c', '.h', '.cpp', '.hpp', '.css', '.scss', '.html', '.vue', '.svelte', '.sh'
+]);
+const SCAN_INCLUDE = `**/*.{${[...SCAN_EXTENSIONS].map(extension => extension.slice(1)).join(',')}}`;
+const MAX_SCAN_FILES = 5000;
+const MAX_TODOS = 200;
+
+/**
+ * Turns a Markdown task list, such as a backlog file or an issue body,
+ * into quest tasks. Checkbox items become tasks and checked ones are
+ * already done. A nested item is a subtask its parent depends on, and
+ * each step of a numbered list depends on the step before it. Plain list
+ * items under a requirements or acceptance criteria heading become
+ * requirements; other prose becomes the description.
+ */
+export function parseMarkdownBacklog(text: string): ImportedBacklog {
+    const backlog: ImportedBacklog = { title: '', description: '', requirements: [], tasks: [] };
+    const prose: string[] = [];
+    // Open items by indentation, to find parents and previous numbered siblings
+    const stack: Array<{ indent: number; task: ImportedTask; ordered: boolean }> = [];
+    let inRequirements = false;
+    let inCode = false;
+    let current: ImportedTask | undefined;
+    let sectionHeading: string | undefined; // Kept in the description only if prose follows it
+
+    for (const line of text.split(/\r?\n/)) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inCode = !inCode;
+            if (current) current.description += `${line.trim()}\n`;
+            continue;
+        }
+        if (inCode) {
+            if (current) current.description += `${line}\n`;
+            else prose.push(line);
+            continue;
+        }
+
+        const heading = HEADING.exec(line);
+        if (heading) {
+            if (heading[1].length === 1 && !backlog.title) {
+                backlog.title = heading[2];
+            } else {
+                sectionHeading = heading[2];
+            }
+            inRequirements = REQUIREMENT_HEADING.test(heading[2]);
+            stack.length = 0;
+            current = undefined;
+            continue;
+        }
+
+        const checkbox = CHECKBOX_ITEM.exec(line);
+        if (checkbox) {
+            const indent = checkbox[1].replace(/\t/g, '    ').length;
+            const ordered = /\d/.test(checkbox[2]);
+            const task: ImportedTask = {
+                id: `task_${backlog.tasks.length + 1}`,
+                title: stripMarkdown(checkbox[4]),
+                description: '',
+                filePaths: findPaths(checkbox[4]),
+                dependencies: [],
+                done: checkbox[3] !== ' '
+            };
+
+            // The last item popped at the same indentation is the previous sibling
+            let closed: typeof stack[number] | undefined;
+            while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+                closed = stack.pop();
+            }
+            const parent = stack[stack.length - 1];
+            parent?.task.dependencies.push(task.id);
+            if (ordered && closed?.ordered && closed.indent === indent) {
+                task.dependencies.push(closed.task.id);
+            }
+
+            stack.push({ indent, task, ordered });
+            backlog.tasks.push(task);
+            current = task;
+            continue;
+        }
+
+        const item = LIST_ITEM.exec(line);
+        if (item && inRequirements && item[1].length === 0) {
+            backlog.requirements.push(stripMarkdown(item[3]));
+            current = undefined;
+            continue;
+        }
+
+        // Indented text right below a task item continues its description
+        if (current && line.trim() && /^\s/.test(line)) {
+            current.description += `${line.trim()}\n`;
+            current.filePaths.push(...findPaths(line).filter(filePath => !current!.filePaths.includes(filePath)));
+            continue;
+        }
+
+        current = undefined;
+        if (sectionHeading && line.trim()) {
+            prose.push('', sectionHeading);
+            sectionHeading = undefined;
+        }
+        prose.push(line);
+    }
+
+    backlog.description = prose.join('\n').replace(/\n{3,}/g, '\n\n').trim();
+    for (const task of backlog.tasks) {
+        task.description = task.description.trim();
+    }
+    return backlog;
+}
+
+// Finds TODO and FIXME comments in the workspace's source files
+export async function scanTodoComments(root: string): Promise<TodoComment[]> {
+    // Only source files are listed, so other files do not use up MAX_SCAN_FILES
+    const files = await vscode.workspace.findFiles(SCAN_INCLUDE, SCAN_EXCLUDE, MAX_SCAN_FILES);
+    const comments: TodoComment[] = [];
+
+    for (const uri of files.sort((a, b) => a.fsPath.localeCompare(b.fsPath))) {
+        let content: string;
+        try {
+            if (fs.statSync(uri.fsPath).size > 1024 * 1024) continue;
+            content = fs.readFileSync(uri.fsPath, 'utf-8');
+        } catch {
+            continue;
+        }
+
+        const lines = content.split(/\r?\n/);
+        for (const [index, line] of lines.entries()) {
+            const match = TODO_COMMENT.exec(line);
+            if (!match) continue;
+
+            comments.push({
+                tag: match[1] as TodoComment['tag'],
+                text: match[2].replace(/\s*(\*\/|-->|#}|%>)\s*$/, '').trim(),
+                filePath: path.relative(root, uri.fsPath).replace(/\\/g, '/'),
+                line: index + 1
+            });
+            if (comments.length >= MAX_TODOS) return comments;
+        }
+    }
+    return comments;
+}
+
+/**
+ * One task per comment, FIXMEs first. Comments in the same file are
+ * resolved one after another so their edits do not overlap.
+ */
+export function todoCommentsToTasks(comments: TodoComment[]): ImportedTask[] {
+    const ordered = [...comments.filter(comment => comment.tag === 'FIXME'), ...comments.filter(comment => comment.tag === 'TODO')];
+    const lastInFile = new Map<string, string>();
+
+    return ordered.map((comment, index) => {
+        const id = `task_${index + 1}`;
+        const previous = lastInFile.get(comment.filePath);
+        lastInFile.set(comment.filePath, id);
+        return {
+            id,
+            title: comment.text ? `${comment.tag}: ${comment.text}` : `${comment.tag} in ${comment.filePath}:${comment.line}`,
+            description: `Resolve the ${comment.tag} comment at ${comment.filePath}:${comment.line} and remove it.`,
+            filePaths: [comment.filePath],
+            dependencies: previous ? [previous] : [],
+            done: false
+        };
+    });
+}
+
+// Inline code that looks like a file path, e.g. `src/app.ts`
+function findPaths(text: string): string[] {
+    const paths: string[] = [];
+    for (const match of text.matchAll(PATH_SPAN)) {
+        if (/^[\w.\-/]+\.\w+$/.test(match[1]) && (match[1].includes('/') || /^[\w-]+\.\w{1,5}$/.test(match[1]))) {
+            paths.push(match[1]);
+        }
+    }
+    return paths;
+}
+
+function stripMarkdown(text: string): string {
+    return text
+        .replace(/\*\*(.+?)\*\*|__(.+?)__/g, '$1$2')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .trim();
+}
\ No newline at end of file
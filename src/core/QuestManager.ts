@@ -1,15 +1,40 @@
 import * as vscode from 'vscode';
-import { OpenAI } from 'openai';
+import * as os from 'os';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LLMService, createAbortController } from '../llm/LLMService';
+import { questSpecificationSchema, questTasksSchema, questTemplateFillSchema, taskRegenerationSchema } from '../llm/schemas';
+import { QuestExecutor } from './QuestExecutor';
+import { GitCheckpoints, TaskCheckpoint } from './GitCheckpoints';
+import { QuestHistory, RevisionSource } from './QuestHistory';
+import { QuestPlan, QuestPlanner, isTaskDone } from './QuestPlanner';
+import { QuestStore } from './QuestStore';
+import { QuestTemplate, QuestTemplateLibrary } from './QuestTemplates';
+import { formatDuration, getEstimateAccuracy, getQuestStats, matchesQuery } from './QuestStats';
+import { TaskVerification, TaskVerifier } from './TaskVerifier';
+import { PathConflict, ProjectContext } from './ProjectContext';
+import { ImportedBacklog, parseMarkdownBacklog, scanTodoComments, todoCommentsToTasks } from './QuestImport';
+import { QUEST_EXPORT_EXTENSIONS, QuestExportFormat, exportQuest, questToRows } from './QuestExport';
+import { RepoWikiGenerator } from './RepoWikiGenerator';
+import { QuestHandoff } from './QuestHandoff';
+import { TaskTimeTracker } from './TaskTimeTracker';
+import { DDSystemIntegration } from '../integration/DDSystemIntegration';
 
 export interface QuestTask {
     id: string;
     title: string;
     description: string;
-    status: 'pending' | 'in-progress' | 'completed';
+    status: 'pending' | 'in-progress' | 'completed' | 'skipped';
     filePaths: string[];
     dependencies: string[];
     createdAt: Date;
     completedAt?: Date;
+    checkpoint?: TaskCheckpoint; // Working tree state right before the task's changes were applied
+    verifyCommands?: string[]; // Shell commands run after the task's changes, e.g. tests or a type-check
+    verification?: TaskVerification; // Outcome of the latest verification run
+    attempts?: number; // Times changes were generated for the task; more than one means it was re-run
+    estimateHours?: number; // The model's estimate when the task was generated
+    activeMs?: number; // Time spent in progress while the window had focus
 }
 
 export interface QuestSpec {
@@ -21,67 +46,160 @@ export interface QuestSpec {
     status: 'draft' | 'approved' | 'in-progress' | 'completed';
     createdAt: Date;
     approvedAt?: Date;
+    completedAt?: Date;
+    cancelledAt?: Date;
+    archivedAt?: Date; // Archived quests are kept but hidden from the Active Quests view
+}
+
+type EditableTask = Pick<QuestTask, 'id' | 'title' | 'description' | 'filePaths' | 'dependencies' | 'verifyCommands' | 'estimateHours'>;
+
+// Specification as sent back by the editor webview
+interface SpecificationEdit {
+    title: string;
+    description: string;
+    requirements: string[];
+    tasks: EditableTask[];
+}
+
+// Project-specific details the model adds to a template
+interface TemplateFill {
+    title: string;
+    description: string;
+    additionalRequirements: string[];
+    tasks: Array<Pick<QuestTask, 'id' | 'description' | 'filePaths'>>;
+}
+
+// Fewer measured tasks than this say little about the model's estimates
+const MIN_CALIBRATION_SAMPLES = 5;
+
+interface TaskRegeneration {
+    removeTaskIds: string[];
+    tasks: EditableTask[];
 }
 
 export class QuestManager {
     private context: vscode.ExtensionContext;
-    private openai: OpenAI | null = null;
+    private llm: LLMService;
+    private dd: DDSystemIntegration;
     private activeQuests: Map<string, QuestSpec> = new Map();
     private questPanel: vscode.WebviewPanel | null = null;
+    private panelQuestId: string | null = null; // Quest shown in questPanel, if it is a spec panel
+    private executor: QuestExecutor;
+    private handoff: QuestHandoff;
+    private checkpoints = new GitCheckpoints();
+    private verifier: TaskVerifier;
+    private projectContext: ProjectContext;
+    private planner = new QuestPlanner();
+    private templates = new QuestTemplateLibrary();
+    private store: QuestStore;
+    private timeTracker: TaskTimeTracker;
+    private history: QuestHistory;
+    private _onDidChangeQuests = new vscode.EventEmitter<void>();
+    readonly onDidChangeQuests = this._onDidChangeQuests.event;
 
-    constructor(context: vscode.ExtensionContext) {
+    constructor(context: vscode.ExtensionContext, llm: LLMService, wikiGenerator: RepoWikiGenerator, ddIntegration: DDSystemIntegration) {
         this.context = context;
-        this.initializeOpenAI();
-        this.loadQuests();
+        this.llm = llm;
+        this.dd = ddIntegration;
+        this.verifier = new TaskVerifier(wikiGenerator);
+        this.projectContext = new ProjectContext(wikiGenerator);
+        this.executor = new QuestExecutor(llm, () => this.saveQuests(), this.checkpoints, this.verifier);
+        this.handoff = new QuestHandoff(
+            ddIntegration,
+            () => this.saveQuests(),
+            path.join((context.storageUri || context.globalStorageUri).fsPath, 'quest-logs')
+        );
+        this.store = new QuestStore(context);
+        this.store.onDidChange(() => this.reloadQuests());
+        this.timeTracker = new TaskTimeTracker(
+            () => Array.from(this.activeQuests.values()),
+            (questId, taskId) => this.executor.isWorkingOn(questId, taskId),
+            () => this.saveQuests()
+        );
+        this.history = new QuestHistory(questId => this.store.getHistoryFolder(questId));
+        this.loadQuests().catch(error => vscode.window.showErrorMessage(`Failed to load quests: ${error}`));
+        this.offerResume();
+        this.offerGlobalQuestMove().catch(error => vscode.window.showErrorMessage(`Failed to move quests: ${error}`));
     }
 
-    private initializeOpenAI() {
-        const config = vscode.workspace.getConfiguration('qoder');
-        const apiKey = config.get<string>('openai.apiKey');
-        
-        if (apiKey) {
-            this.openai = new OpenAI({ apiKey });
-        } else {
+    // Called once API keys are loaded from secure storage, or a stored key would read as missing
+    checkAIConfiguration(): void {
+        if (!this.llm.isConfigured('quest')) {
             vscode.window.showWarningMessage(
-                'OpenAI API key not configured. Please set qoder.openai.apiKey in settings.'
+                'AI provider for quests is not configured. Run "Qoder: Manage API Keys" to add an OpenAI key or choose another qoder.ai.provider in settings.'
             );
         }
     }
 
     async startNewQuest(): Promise<void> {
-        if (!this.openai) {
-            vscode.window.showErrorMessage('OpenAI API not configured');
+        if (!this.llm.isConfigured('quest')) {
+            vscode.window.showErrorMessage('AI provider for quests is not configured');
+            return;
+        }
+
+        // Step 1: Start from a workspace template if there are any
+        const pickedTemplate = await this.pickTemplate();
+        if (pickedTemplate === undefined) {
             return;
         }
+        let template: QuestTemplate | null = null;
+        if (pickedTemplate) {
+            const values = await this.templates.askParameters(pickedTemplate);
+            if (!values) {
+                return;
+            }
+            template = this.templates.apply(pickedTemplate, values);
+        }
 
-        // Step 1: Get user input for quest description (works globally)
+        // Step 2: Get user input for quest description (works globally)
         const questInput = await vscode.window.showInputBox({
-            prompt: 'Describe what you want to develop (works anywhere)',
-            placeHolder: 'e.g., Create a REST API for user authentication with JWT tokens',
+            prompt: template
+                ? `Anything specific about this "${template.name}" quest? (optional)`
+                : 'Describe what you want to develop (works anywhere)',
+            placeHolder: template ? template.description : 'e.g., Create a REST API for user authentication with JWT tokens',
             ignoreFocusOut: true
         });
 
-        if (!questInput) {
+        if (questInput === undefined || (!template && !questInput)) {
             return;
         }
 
+        await this.generateQuest(questInput, template);
+    }
+
+    // Generates a draft quest from a description or a template and shows it for approval
+    private async generateQuest(questInput: string, template: QuestTemplate | null): Promise<void> {
         // Get optional workspace context (null if no workspace)
         const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
         const workspacePath = workspaceFolder?.uri.fsPath || null;
 
-        // Step 2: Show progress while generating spec
+        // Step 3: Show progress while generating spec
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: "🤖 AI is analyzing your requirements...",
-            cancellable: false
-        }, async (progress) => {
+            cancellable: true
+        }, async (progress, token) => {
+            const controller = createAbortController(token);
+            this.showGenerationPanel(controller);
+
             try {
-                // Generate specification using AI (global capable)
-                progress.report({ increment: 30, message: "Generating specification..." });
-                const spec = await this.generateSpecification(questInput, workspacePath);
-                
-                progress.report({ increment: 50, message: "Breaking down into tasks..." });
-                const tasks = await this.generateTasks(spec, workspacePath);
+                let spec: { title: string; description: string; requirements: string[] };
+                let tasks: QuestTask[];
+                if (workspacePath) {
+                    progress.report({ message: "Reading project structure..." });
+                }
+                const digest = workspacePath ? await this.projectContext.getDigest(workspacePath) : '';
+                if (template) {
+                    progress.report({ increment: 60, message: `Filling in "${template.name}"...` });
+                    ({ spec, tasks } = await this.fillTemplate(template, questInput, workspacePath, digest, controller.signal));
+                } else {
+                    // Generate specification using AI (global capable)
+                    progress.report({ increment: 30, message: "Generating specification..." });
+                    spec = await this.generateSpecification(questInput, workspacePath, digest, controller.signal);
+
+                    progress.report({ increment: 50, message: "Breaking down into tasks..." });
+                    tasks = await this.generateTasks(spec, workspacePath, digest, controller.signal);
+                }
                 
                 progress.report({ increment: 20, message: "Creating quest..." });
                 
@@ -97,25 +215,34 @@ export class QuestManager {
 
                 this.activeQuests.set(quest.id, quest);
                 await this.saveQuests();
+                this.history.record(
+                    quest,
+                    'ai',
+                    this.getModelName(),
+                    template ? `Generated from template "${template.name}"` : 'Generated specification'
+                );
                 
-                // Step 3: Show specification for user approval
+                // Step 4: Show specification for user approval
                 await this.showSpecificationPanel(quest);
                 
             } catch (error) {
-                vscode.window.showErrorMessage(`Quest creation failed: ${error}`);
+                if (controller.signal.aborted) {
+                    this.questPanel?.dispose();
+                    vscode.window.showInformationMessage('Quest generation cancelled');
+                } else {
+                    vscode.window.showErrorMessage(`Quest creation failed: ${error}`);
+                }
             }
         });
     }
 
-    private async generateSpecification(input: string, workspacePath: string | null): Promise<{
+    private async generateSpecification(input: string, workspacePath: string | null, digest: string, signal?: AbortSignal): Promise<{
         title: string;
         description: string;
         requirements: string[];
     }> {
-        if (!this.openai) throw new Error('OpenAI not initialized');
-
         const contextNote = workspacePath 
-            ? `\nCurrent workspace: ${workspacePath}\n(Consider existing project structure if applicable)`
+            ? `\nCurrent workspace: ${workspacePath}${this.formatDigestSection(digest)}\n(Consider existing project structure if applicable)`
             : '\n(No workspace context - generating standalone specification)';
 
         const prompt = `You are a senior software architect. Based on the user's request, create a detailed technical specification.
@@ -136,35 +263,32 @@ Focus on:
 
 Response must be valid JSON.`;
 
-        const response = await this.openai.chat.completions.create({
-            model: 'gpt-4',
+        return this.llm.completeStructured({
+            feature: 'quest',
+            operation: 'quest.specification',
             messages: [{ role: 'user', content: prompt }],
             temperature: 0.7,
-            max_tokens: 1500
-        });
-
-        const content = response.choices[0]?.message?.content;
-        if (!content) throw new Error('No response from AI');
-
-        try {
-            return JSON.parse(content);
-        } catch (error) {
-            throw new Error('Invalid response format from AI');
-        }
+            maxTokens: 1500,
+            signal,
+            cache: {},
+            onToken: token => this.postGenerationToken('spec', token)
+        }, questSpecificationSchema);
     }
 
-    private async generateTasks(spec: { title: string; description: string; requirements: string[] }, workspacePath: string | null): Promise<QuestTask[]> {
-        if (!this.openai) throw new Error('OpenAI not initialized');
-
+    private async generateTasks(spec: { title: string; description: string; requirements: string[] }, workspacePath: string | null, digest: string, signal?: AbortSignal): Promise<QuestTask[]> {
         const pathContext = workspacePath 
-            ? `\nWorkspace path: ${workspacePath}\nGenerate file paths relative to this workspace.`
+            ? `\nWorkspace path: ${workspacePath}${this.formatDigestSection(digest)}\nGenerate file paths relative to this workspace that follow its existing layout and languages; only introduce a new directory when no existing one fits.`
             : '\nNo specific workspace - generate generic/portable file structure that works anywhere.';
+        const availableCommands = workspacePath ? await this.verifier.getAvailableCommands(workspacePath) : [];
+        const verifyContext = availableCommands.length > 0
+            ? `\n\nCommands available in this project:\n- ${availableCommands.join('\n- ')}`
+            : '';
 
         const prompt = `You are a senior developer creating a task breakdown structure.
 
 Project: ${spec.title}
 Description: ${spec.description}
-Requirements: ${spec.requirements.join('\n- ')}${pathContext}
+Requirements: ${spec.requirements.join('\n- ')}${pathContext}${verifyContext}
 
 Create a detailed task breakdown in JSON format. Each task should have:
 - id: unique identifier
@@ -172,6 +296,8 @@ Create a detailed task breakdown in JSON format. Each task should have:
 - description: detailed description of what needs to be done
 - filePaths: suggested file paths (generic if no workspace, specific if workspace provided)
 - dependencies: array of task IDs that must be completed first
+- verifyCommands: commands that check the task's changes, such as tests, type-check or lint${availableCommands.length > 0 ? ', chosen from the available commands' : ''} (empty array if none apply)
+- estimateHours: hours of focused work the task takes, e.g. 1.5${this.getEstimateCalibration()}
 
 Tasks should be:
 1. Logically ordered and properly dependent
@@ -183,34 +309,464 @@ Tasks should be:
 
 Response must be valid JSON array of tasks.`;
 
-        const response = await this.openai.chat.completions.create({
-            model: 'gpt-4',
+        const rawTasks = await this.llm.completeStructured<Array<Omit<QuestTask, 'status' | 'createdAt'>>>({
+            feature: 'quest',
+            operation: 'quest.tasks',
             messages: [{ role: 'user', content: prompt }],
             temperature: 0.6,
-            max_tokens: 2000
+            maxTokens: 2000,
+            signal,
+            cache: {},
+            onToken: token => this.postGenerationToken('tasks', token)
+        }, questTasksSchema);
+
+        return rawTasks.map(task => ({
+            ...task,
+            estimateHours: this.normalizeEstimate(task.estimateHours),
+            status: 'pending' as const,
+            createdAt: new Date()
+        }));
+    }
+
+    private formatDigestSection(digest: string): string {
+        return digest ? `\n\nProject overview:\n${digest}\n` : '';
+    }
+
+    // How tracked time compared to past estimates in this project, so the model can correct its bias
+    private getEstimateCalibration(): string {
+        const accuracy = getEstimateAccuracy(this.getProjectQuests());
+        if (!accuracy || accuracy.samples.length < MIN_CALIBRATION_SAMPLES) return '';
+
+        const bias = accuracy.medianRatio >= 1
+            ? `took a median of ${accuracy.medianRatio.toFixed(1)}x their estimate`
+            : `took a median of ${Math.round(accuracy.medianRatio * 100)}% of their estimate`;
+        return `\n  In this project, ${accuracy.samples.length} completed tasks ${bias}, and ${Math.round(accuracy.withinRangeShare * 100)}% were within 25% of it. Correct your estimates for this.`;
+    }
+
+    // Rounded to a quarter hour; anything that is not a positive number is no estimate
+    private normalizeEstimate(hours: number | undefined): number | undefined {
+        return typeof hours === 'number' && hours > 0 ? Math.max(0.25, Math.round(hours * 4) / 4) : undefined;
+    }
+
+    // Resolves to null for a quest from scratch and undefined when dismissed
+    private async pickTemplate(): Promise<QuestTemplate | null | undefined> {
+        const templates = this.templates.list();
+        if (templates.length === 0) return null;
+
+        const selected = await vscode.window.showQuickPick(
+            [
+                { label: '$(sparkle) Describe a new quest', template: null },
+                ...templates.map(template => ({
+                    label: `$(file-code) ${template.name}`,
+                    description: `${template.tasks.length} task(s)`,
+                    detail: template.description || undefined,
+                    template
+                }))
+            ],
+            { placeHolder: 'Start from a quest template or describe a new quest', ignoreFocusOut: true }
+        );
+        return selected ? selected.template : undefined;
+    }
+
+    /**
+     * Keeps a template's requirements and task structure and lets the model
+     * only adapt titles, descriptions and file paths to this project.
+     */
+    private async fillTemplate(template: QuestTemplate, input: string, workspacePath: string | null, digest: string, signal?: AbortSignal): Promise<{
+        spec: { title: string; description: string; requirements: string[] };
+        tasks: QuestTask[];
+    }> {
+        const pathContext = workspacePath
+            ? `\nWorkspace path: ${workspacePath}${this.formatDigestSection(digest)}\nUse file paths relative to this workspace that match its existing structure.`
+            : '\nNo specific workspace - keep file paths generic.';
+        const taskList = template.tasks.map(task =>
+            `- id: ${task.id}\n  title: ${task.title}\n  description: ${task.description || '(none)'}\n  files: ${task.filePaths.join(', ') || '(none)'}`
+        ).join('\n');
+
+        const prompt = `You are a senior developer adapting a quest template to a specific project.
+
+Template: ${template.name}
+${template.guidance ? `Guidance: ${template.guidance}\n` : ''}User notes: ${input || '(none)'}${pathContext}
+
+Requirements (fixed):
+- ${template.requirements.join('\n- ')}
+
+Tasks (fixed ids and order):
+${taskList}
+
+Respond with JSON containing:
+- title: a concise title for this quest
+- description: a technical description (1-2 paragraphs) specific to this project
+- additionalRequirements: project-specific requirements the template does not cover (may be empty)
+- tasks: for every task id above, { id, description, filePaths } with the description made specific and concrete file paths
+
+Do not add, remove or rename tasks. Response must be valid JSON.`;
+
+        const fill = await this.llm.completeStructured<TemplateFill>({
+            feature: 'quest',
+            operation: 'quest.fillTemplate',
+            messages: [{ role: 'user', content: prompt }],
+            temperature: 0.4,
+            maxTokens: 2000,
+            signal,
+            cache: {},
+            onToken: token => this.postGenerationToken('spec', token)
+        }, questTemplateFillSchema);
+
+        const filled = new Map(fill.tasks.map(task => [task.id, task]));
+        return {
+            spec: {
+                title: fill.title,
+                description: fill.description,
+                requirements: [...template.requirements, ...fill.additionalRequirements]
+            },
+            tasks: template.tasks.map(task => {
+                const details = filled.get(task.id);
+                return {
+                    ...task,
+                    description: details?.description.trim() || task.description,
+                    filePaths: details && details.filePaths.length > 0 ? details.filePaths : task.filePaths,
+                    verifyCommands: [...task.verifyCommands || []],
+                    status: 'pending' as const,
+                    createdAt: new Date()
+                };
+            })
+        };
+    }
+
+    /**
+     * Creates a draft quest from an existing backlog: a Markdown checklist,
+     * an issue body on the clipboard, or the workspace's TODO and FIXME
+     * comments. An issue without a task list is broken down by the AI.
+     */
+    async importQuest(): Promise<void> {
+        const picked = await vscode.window.showQuickPick([
+            {
+                label: '$(checklist) Markdown checklist',
+                detail: 'Checkbox items from the active Markdown editor (or its selection) or a Markdown file',
+                source: 'markdown' as const
+            },
+            {
+                label: '$(issues) Issue from clipboard',
+                detail: 'A copied issue body; its task list becomes the tasks, otherwise the AI breaks it down',
+                source: 'issue' as const
+            },
+            {
+                label: '$(search) TODO and FIXME comments',
+                detail: 'One task per comment found in the workspace',
+                source: 'todos' as const
+            }
+        ], { placeHolder: 'Import a quest from' });
+        if (!picked) return;
+
+        switch (picked.source) {
+            case 'markdown':
+                await this.importMarkdownChecklist();
+                break;
+            case 'issue':
+                await this.importIssue();
+                break;
+            case 'todos':
+                await this.importTodoComments();
+                break;
+        }
+    }
+
+    private async importMarkdownChecklist(): Promise<void> {
+        let text: string;
+        let fileName: string;
+        const editor = vscode.window.activeTextEditor;
+        if (editor?.document.languageId === 'markdown') {
+            text = editor.selection.isEmpty ? editor.document.getText() : editor.document.getText(editor.selection);
+            fileName = editor.document.fileName;
+        } else {
+            const [uri] = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                filters: { Markdown: ['md', 'markdown'] },
+                openLabel: 'Import Checklist'
+            }) || [];
+            if (!uri) return;
+            text = fs.readFileSync(uri.fsPath, 'utf-8');
+            fileName = uri.fsPath;
+        }
+
+        const backlog = parseMarkdownBacklog(text);
+        if (backlog.tasks.length === 0) {
+            vscode.window.showWarningMessage('No checklist items ("- [ ] ...") found to import');
+            return;
+        }
+        const title = backlog.title || path.basename(fileName, path.extname(fileName));
+        await this.createImportedQuest({ ...backlog, title }, `Imported from ${path.basename(fileName)}`);
+    }
+
+    private async importIssue(): Promise<void> {
+        const text = (await vscode.env.clipboard.readText()).trim();
+        if (!text) {
+            vscode.window.showWarningMessage('Copy an issue body to the clipboard first');
+            return;
+        }
+
+        const backlog = parseMarkdownBacklog(text);
+        if (backlog.tasks.length === 0) {
+            const choice = await vscode.window.showInformationMessage(
+                'The issue has no task list. Let the AI break it down into a quest?',
+                'Generate with AI'
+            );
+            if (choice !== 'Generate with AI') return;
+            if (!this.llm.isConfigured('quest')) {
+                vscode.window.showErrorMessage('AI provider for quests is not configured');
+                return;
+            }
+            await this.generateQuest(text, null);
+            return;
+        }
+
+        // Issue bodies rarely repeat the issue's title, so confirm one
+        const suggested = backlog.title || backlog.description.split('\n')[0].slice(0, 80);
+        const title = await vscode.window.showInputBox({
+            prompt: 'Quest title',
+            value: suggested,
+            ignoreFocusOut: true,
+            validateInput: value => value.trim() ? null : 'Enter a title'
         });
+        if (!title) return;
+        await this.createImportedQuest({ ...backlog, title: title.trim() }, 'Imported from issue');
+    }
 
-        const content = response.choices[0]?.message?.content;
-        if (!content) throw new Error('No response from AI');
+    private async importTodoComments(): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            vscode.window.showWarningMessage('Open a folder to scan for TODO and FIXME comments');
+            return;
+        }
 
-        try {
-            const rawTasks = JSON.parse(content);
-            return rawTasks.map((task: any) => ({
+        const comments = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: 'Scanning for TODO and FIXME comments...'
+        }, () => scanTodoComments(workspaceFolder.uri.fsPath));
+        if (comments.length === 0) {
+            vscode.window.showInformationMessage('No TODO or FIXME comments found');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            comments.map(comment => ({
+                label: `${comment.tag === 'FIXME' ? '$(bug)' : '$(checklist)'} ${comment.text || comment.tag}`,
+                description: `${comment.filePath}:${comment.line}`,
+                picked: true,
+                comment
+            })),
+            { placeHolder: 'Select the comments to turn into tasks', canPickMany: true, matchOnDescription: true }
+        );
+        if (!selected || selected.length === 0) return;
+
+        const files = new Set(selected.map(item => item.comment.filePath));
+        await this.createImportedQuest({
+            title: 'Resolve TODO and FIXME comments',
+            description: `Work through ${selected.length} TODO/FIXME comment(s) across ${files.size} file(s).`,
+            requirements: ['Each selected comment is resolved and then removed from the code'],
+            tasks: todoCommentsToTasks(selected.map(item => item.comment))
+        }, 'Imported from TODO/FIXME comments');
+    }
+
+    // Imported quests start as drafts so they can be edited before approval
+    private async createImportedQuest(backlog: ImportedBacklog, summary: string): Promise<void> {
+        const quest: QuestSpec = {
+            id: this.generateId(),
+            title: backlog.title,
+            description: backlog.description,
+            requirements: backlog.requirements,
+            tasks: backlog.tasks.map(({ done, ...task }) => ({
                 ...task,
-                status: 'pending' as const,
+                status: done ? 'completed' as const : 'pending' as const,
                 createdAt: new Date()
-            }));
-        } catch (error) {
-            throw new Error('Invalid task format from AI');
+            })),
+            status: 'draft',
+            createdAt: new Date()
+        };
+
+        this.activeQuests.set(quest.id, quest);
+        await this.saveQuests();
+        this.history.record(quest, 'manual', this.getUserName(), summary);
+        await this.showSpecificationPanel(quest);
+    }
+
+    async saveQuestAsTemplate(questId?: string): Promise<void> {
+        if (!questId) {
+            const selected = await vscode.window.showQuickPick(
+                this.getActiveQuests().map(q => ({ label: q.title, description: `${q.tasks.length} task(s)`, questId: q.id })),
+                { placeHolder: 'Select the quest to save as a template' }
+            );
+            if (!selected) return;
+            questId = selected.questId;
+        }
+
+        const quest = this.activeQuests.get(questId);
+        if (!quest) return;
+
+        const name = await vscode.window.showInputBox({
+            prompt: 'Template name',
+            value: quest.title,
+            ignoreFocusOut: true,
+            validateInput: text => text.trim() ? null : 'Enter a name'
+        });
+        if (!name) return;
+
+        const filePath = this.templates.save(quest, name.trim());
+        await vscode.window.showTextDocument(vscode.Uri.file(filePath));
+        vscode.window.showInformationMessage('Template saved. Replace project-specific values with {{name}} placeholders and list them under parameters.');
+    }
+
+    /**
+     * Exports a quest as Markdown for a pull request description, JSON for
+     * tooling or CSV for spreadsheets, or appends its task rows to a DD
+     * spreadsheet through ddsheets.
+     */
+    async exportQuest(questId?: string): Promise<void> {
+        const quest = await this.findQuest(questId, 'Select the quest to export');
+        if (!quest) return;
+
+        const picked = await vscode.window.showQuickPick([
+            {
+                label: '$(markdown) Markdown',
+                detail: 'Requirements and a task checklist for a pull request description',
+                format: 'markdown' as const
+            },
+            {
+                label: '$(json) JSON',
+                detail: 'The full quest record, for scripts and other tools',
+                format: 'json' as const
+            },
+            {
+                label: '$(table) CSV',
+                detail: 'One row per task with status, timestamps and verification result',
+                format: 'csv' as const
+            },
+            {
+                label: '$(cloud-upload) DD spreadsheet',
+                detail: 'Append the CSV rows to a spreadsheet with ddsheets',
+                format: 'spreadsheet' as const
+            }
+        ], { placeHolder: `Export "${quest.title}" as` });
+        if (!picked) return;
+
+        if (picked.format === 'spreadsheet') {
+            await this.exportToSpreadsheet(quest);
+            return;
+        }
+
+        const content = exportQuest(quest, picked.format);
+        if (picked.format === 'markdown') {
+            const action = await vscode.window.showQuickPick(['Copy to Clipboard', 'Save as File'], { placeHolder: 'Markdown export' });
+            if (!action) return;
+            if (action === 'Copy to Clipboard') {
+                await vscode.env.clipboard.writeText(content);
+                vscode.window.showInformationMessage(`Quest "${quest.title}" copied as Markdown`);
+                return;
+            }
+        }
+        await this.saveExport(quest, picked.format, content);
+    }
+
+    private async saveExport(quest: QuestSpec, format: QuestExportFormat, content: string): Promise<void> {
+        const extension = QUEST_EXPORT_EXTENSIONS[format];
+        const baseName = quest.title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || quest.id;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, `${baseName}.${extension}`) : undefined,
+            filters: { [format.toUpperCase()]: [extension] }
+        });
+        if (!target) return;
+
+        fs.writeFileSync(target.fsPath, content, 'utf-8');
+        const choice = await vscode.window.showInformationMessage(`Quest exported to ${path.basename(target.fsPath)}`, 'Open');
+        if (choice === 'Open') {
+            await vscode.window.showTextDocument(target);
+        }
+    }
+
+    private async exportToSpreadsheet(quest: QuestSpec): Promise<void> {
+        if (!this.dd.isSpreadsheetAvailable()) {
+            vscode.window.showErrorMessage(
+                `ddsheets was not found in ${this.dd.getConfig().binPath}. Set "qoder.dd.systemPath" to your DD system folder.`
+            );
+            return;
+        }
+
+        const config = vscode.workspace.getConfiguration('qoder');
+        const spreadsheetId = (await vscode.window.showInputBox({
+            prompt: 'Spreadsheet to append the quest\'s task rows to',
+            value: config.get<string>('dd.spreadsheetId') || '',
+            ignoreFocusOut: true,
+            validateInput: text => text.trim() ? null : 'Enter a spreadsheet ID'
+        }))?.trim();
+        if (!spreadsheetId) return;
+        if (spreadsheetId !== config.get<string>('dd.spreadsheetId')) {
+            await config.update('dd.spreadsheetId', spreadsheetId, vscode.ConfigurationTarget.Global);
+        }
+
+        const rows = questToRows(quest);
+        const appended = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Sending "${quest.title}" to the spreadsheet`
+        }, async progress => {
+            // ddsheets appends one row per log call; the sheet keeps its own header
+            for (const [index, row] of rows.entries()) {
+                progress.report({ message: `row ${index + 1} of ${rows.length}`, increment: 100 / rows.length });
+                try {
+                    await this.dd.updateSpreadsheet(spreadsheetId, row, 'log');
+                } catch (error) {
+                    // Stop at the first failure so the rows already in the sheet stay in task order
+                    vscode.window.showErrorMessage(
+                        `Failed to export "${quest.title}" after ${index} of ${rows.length} row(s) were appended to spreadsheet ${spreadsheetId}: ${error}`
+                    );
+                    return index;
+                }
+            }
+            return rows.length;
+        });
+        if (appended < rows.length) return;
+        vscode.window.showInformationMessage(`${rows.length} task(s) of "${quest.title}" sent to spreadsheet ${spreadsheetId}`);
+    }
+
+    // Opens the quest panel in streaming mode; closing it or pressing Stop aborts generation
+    private showGenerationPanel(controller: AbortController): void {
+        if (this.questPanel) {
+            this.questPanel.dispose();
         }
+
+        const panel = vscode.window.createWebviewPanel(
+            'qoder-quest-spec',
+            'Quest: Generating...',
+            vscode.ViewColumn.One,
+            {
+                enableScripts: true,
+                retainContextWhenHidden: true
+            }
+        );
+        this.questPanel = panel;
+        this.panelQuestId = null;
+
+        panel.webview.html = this.getGenerationHtml();
+        panel.webview.onDidReceiveMessage(message => {
+            if (message.command === 'cancel') {
+                controller.abort();
+            }
+        });
+        panel.onDidDispose(() => controller.abort());
     }
 
-    private async showSpecificationPanel(quest: QuestSpec): Promise<void> {
+    private postGenerationToken(section: 'spec' | 'tasks', token: string): void {
+        this.questPanel?.webview.postMessage({ command: 'token', section, text: token });
+    }
+
+    private async showSpecificationPanel(quest: QuestSpec, revealTaskId?: string): Promise<void> {
         if (this.questPanel) {
             this.questPanel.dispose();
         }
 
-        this.questPanel = vscode.window.createWebviewPanel(
+        const panel = vscode.window.createWebviewPanel(
             'qoder-quest-spec',
             `Quest: ${quest.title}`,
             vscode.ViewColumn.One,
@@ -219,43 +775,133 @@ Response must be valid JSON array of tasks.`;
                 retainContextWhenHidden: true
             }
         );
+        this.questPanel = panel;
+        this.panelQuestId = quest.id;
+        panel.onDidDispose(() => {
+            if (this.questPanel === panel) {
+                this.questPanel = null;
+                this.panelQuestId = null;
+            }
+        });
 
-        this.questPanel.webview.html = this.getSpecificationHtml(quest);
+        this.questPanel.webview.html = this.getSpecificationHtml(quest, revealTaskId);
 
         // Handle messages from webview
         this.questPanel.webview.onDidReceiveMessage(async (message) => {
             switch (message.command) {
-                case 'approve':
+                case 'approve': {
+                    if (!this.checkDraft(quest)) break;
+                    const cycles = this.getPlan(quest).issues.filter(issue => issue.type === 'cycle');
+                    if (cycles.length > 0) {
+                        const choice = await vscode.window.showWarningMessage(
+                            `${cycles.length} circular dependency(ies) found. Tasks on a cycle will never run.`,
+                            { modal: true },
+                            'Approve Anyway'
+                        );
+                        if (choice !== 'Approve Anyway') break;
+                    }
+
                     quest.status = 'approved';
                     quest.approvedAt = new Date();
                     await this.saveQuests();
-                    await this.startQuestExecution(quest);
                     vscode.window.showInformationMessage('🚀 Quest approved and started!');
+                    await this.startQuestExecution(quest);
                     break;
-                    
+                }
+
                 case 'modify':
                     // Allow user to modify spec
                     await this.modifySpecification(quest);
                     break;
+
+                case 'saveEdit':
+                    await this.saveSpecificationEdit(quest, message.spec, message.regenerate === true);
+                    break;
+
+                case 'cancelEdit':
+                    if (this.questPanel) {
+                        this.questPanel.webview.html = this.getSpecificationHtml(quest);
+                    }
+                    break;
+
+                case 'compareRevisions':
+                    this.postRevisionDiff(quest, message.from, message.to);
+                    break;
+
+                case 'revertRevision':
+                    await this.revertToRevision(quest, message.number);
+                    break;
+
+                case 'rollbackTask':
+                    await this.rollbackTask(quest.id, message.taskId);
+                    break;
+
+                case 'rollbackQuest':
+                    await this.rollbackQuest(quest.id);
+                    break;
                     
+                // Cancelled quests are archived rather than deleted so they still count in statistics
                 case 'cancel':
-                    this.activeQuests.delete(quest.id);
+                    if (!this.checkDraft(quest) || !this.checkNotRunning(quest)) break;
+                    quest.cancelledAt = new Date();
+                    quest.archivedAt = new Date();
                     await this.saveQuests();
                     this.questPanel?.dispose();
-                    vscode.window.showInformationMessage('Quest cancelled');
+                    vscode.window.showInformationMessage('Quest cancelled and moved to the archive');
                     break;
             }
         });
     }
 
-    private getSpecificationHtml(quest: QuestSpec): string {
-        const requirementsHtml = quest.requirements.map(req => `<div class="requirement">• ${req}</div>`).join('');
+    private getSpecificationHtml(quest: QuestSpec, revealTaskId?: string): string {
+        const plan = this.getPlan(quest);
+        const isDraft = quest.status === 'draft' && !quest.archivedAt;
+        const titles = new Map(quest.tasks.map(task => [task.id, task.title]));
+        const requirementsHtml = quest.requirements.map(req => `<div class="requirement">• ${this.escapeHtml(req)}</div>`).join('');
+        const issuesHtml = plan.issues.map(issue => `<div class="issue">⚠️ ${this.escapeHtml(issue.message)}</div>`).join('');
+        const pathConflicts = this.getPathConflicts(quest);
+        const pathIssuesHtml = pathConflicts
+            .map(conflict => `<div class="issue">⚠️ ${this.escapeHtml(titles.get(conflict.taskId) || conflict.taskId)}: <code>${this.escapeHtml(conflict.filePath)}</code> ${this.escapeHtml(conflict.message)}</div>`)
+            .join('');
+        const revisions = this.history.getRevisions(quest.id);
+        const canRevert = this.canRevert(quest);
+        const sourceLabels: Record<RevisionSource, string> = { ai: '🤖 AI', manual: '✍️ Manual', unknown: '❔ Unknown' };
+        const revisionsHtml = [...revisions].reverse().map((revision, index) => `<div class="revision">
+                <div><strong>#${revision.number}</strong> ${this.escapeHtml(revision.summary)}</div>
+                <div class="revision-meta">${sourceLabels[revision.source]} · ${this.escapeHtml(revision.author)} · ${new Date(revision.timestamp).toLocaleString()}${index === 0 ? ' · current' : ''}</div>
+                <div class="revision-actions">
+                    ${revision.number > 1 ? `<button class="btn-small" onclick="compareRevisions(${revision.number - 1}, ${revision.number})">Show changes</button>` : ''}
+                    ${index > 0 && canRevert ? `<button class="btn-small" onclick="revertRevision(${revision.number})">Restore</button>` : ''}
+                </div>
+            </div>`).join('');
+        const revisionOptions = revisions.map(revision => `<option value="${revision.number}">#${revision.number}</option>`).join('');
         const tasksHtml = quest.tasks.map((task, index) => {
-            const filesHtml = task.filePaths.length > 0 ? `<div class="task-files">Files: ${task.filePaths.join(', ')}</div>` : '';
-            return `<div class="task">
-                <div class="task-title">${index + 1}. ${task.title}</div>
-                <div class="task-description">${task.description}</div>
+            const conflicting = new Set(pathConflicts.filter(conflict => conflict.taskId === task.id).map(conflict => conflict.filePath));
+            const filesHtml = task.filePaths.length > 0
+                ? `<div class="task-files">Files: ${task.filePaths.map(filePath => conflicting.has(filePath) ? `⚠️ ${this.escapeHtml(filePath)}` : this.escapeHtml(filePath)).join(', ')}</div>`
+                : '';
+            const dependenciesHtml = task.dependencies.length > 0
+                ? `<div class="task-dependencies">Depends on: ${task.dependencies.map(id => this.escapeHtml(titles.get(id) || `${id} (unknown)`)).join(', ')}</div>`
+                : '';
+            const verifyHtml = task.verifyCommands?.length
+                ? `<div class="task-files">Verify: ${task.verifyCommands.map(command => `<code>${this.escapeHtml(command)}</code>`).join(', ')}${this.escapeHtml(this.getVerificationLabel(task))}</div>`
+                : '';
+            const activeMs = this.timeTracker.getActiveMs(quest.id, task);
+            const timeHtml = task.estimateHours || activeMs > 0
+                ? `<div class="task-files">⏱ ${activeMs > 0 ? `${formatDuration(activeMs)} tracked` : 'Not started'}${task.estimateHours ? ` · estimated ${task.estimateHours}h` : ''}</div>`
+                : '';
+            const rollbackHtml = task.checkpoint
+                ? `<div class="revision-actions"><button class="btn-small" data-task-id="${this.escapeHtml(task.id)}">↩ Roll back to before this task</button></div>`
+                : '';
+            const status = task.status === 'pending' && plan.blocked.has(task.id) ? 'blocked' : task.status;
+            return `<div class="task" id="task-${index}">
+                <div class="task-title">${index + 1}. ${this.escapeHtml(task.title)} <span class="task-status">${this.escapeHtml(status)}</span></div>
+                <div class="task-description">${this.escapeHtml(task.description)}</div>
                 ${filesHtml}
+                ${dependenciesHtml}
+                ${verifyHtml}
+                ${timeHtml}
+                ${rollbackHtml}
             </div>`;
         }).join('');
 
@@ -327,6 +973,17 @@ Response must be valid JSON array of tasks.`;
             font-size: 16px;
             margin-bottom: 8px;
         }
+        .task-status {
+            font-size: 11px;
+            font-weight: normal;
+            padding: 1px 6px;
+            border-radius: 8px;
+            background: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        .task.revealed {
+            outline: 2px solid var(--vscode-focusBorder);
+        }
         .task-description {
             margin-bottom: 10px;
             opacity: 0.9;
@@ -339,6 +996,64 @@ Response must be valid JSON array of tasks.`;
             border-radius: 3px;
             font-family: 'SF Mono', Consolas, monospace;
         }
+        .task-dependencies {
+            font-size: 12px;
+            margin-top: 8px;
+            opacity: 0.8;
+        }
+        .issue {
+            margin: 8px 0;
+            padding: 8px 12px;
+            background: var(--vscode-inputValidation-warningBackground);
+            border-left: 3px solid var(--vscode-inputValidation-warningBorder);
+            border-radius: 4px;
+        }
+        .revision {
+            margin: 8px 0;
+            padding: 8px 12px;
+            background: var(--vscode-inputOption-activeBackground);
+            border-radius: 4px;
+        }
+        .revision-meta {
+            font-size: 12px;
+            opacity: 0.8;
+        }
+        .revision-actions, .revision-compare {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            margin-top: 6px;
+        }
+        .revision-compare select {
+            color: var(--vscode-dropdown-foreground);
+            background: var(--vscode-dropdown-background);
+            border: 1px solid var(--vscode-dropdown-border);
+        }
+        .diff-heading {
+            font-weight: 600;
+            margin: 15px 0 5px 0;
+        }
+        table.diff {
+            width: 100%;
+            border-collapse: collapse;
+            table-layout: fixed;
+            font-family: 'SF Mono', Consolas, monospace;
+            font-size: 12px;
+        }
+        table.diff td {
+            width: 50%;
+            padding: 1px 6px;
+            vertical-align: top;
+            white-space: pre-wrap;
+            word-break: break-word;
+            border-right: 1px solid var(--vscode-panel-border);
+        }
+        tr.removed td.left, tr.changed td.left {
+            background: var(--vscode-diffEditor-removedTextBackground);
+        }
+        tr.added td.right, tr.changed td.right {
+            background: var(--vscode-diffEditor-insertedTextBackground);
+        }
         .buttons {
             display: flex;
             gap: 15px;
@@ -354,6 +1069,12 @@ Response must be valid JSON array of tasks.`;
             font-weight: 600;
             transition: all 0.2s;
         }
+        button.btn-small {
+            padding: 4px 10px;
+            font-size: 12px;
+            background: var(--vscode-button-secondaryBackground, var(--vscode-inputOption-activeBackground));
+            color: var(--vscode-button-secondaryForeground, var(--vscode-foreground));
+        }
         .btn-approve {
             background: var(--vscode-button-background);
             color: var(--vscode-button-foreground);
@@ -375,8 +1096,8 @@ Response must be valid JSON array of tasks.`;
 <body>
     <div class="container">
         <div class="header">
-            <h1 class="title">${quest.title}</h1>
-            <div class="description">${quest.description}</div>
+            <h1 class="title">${this.escapeHtml(quest.title)}</h1>
+            <div class="description">${this.escapeHtml(quest.description)}</div>
         </div>
 
         <div class="section">
@@ -384,15 +1105,46 @@ Response must be valid JSON array of tasks.`;
             ${requirementsHtml}
         </div>
 
+        ${plan.issues.length > 0 ? `
+        <div class="section">
+            <h2 class="section-title">🧩 Dependency Issues (${plan.issues.length})</h2>
+            ${issuesHtml}
+        </div>
+        ` : ''}
+
+        ${pathConflicts.length > 0 ? `
+        <div class="section">
+            <h2 class="section-title">📁 File Path Issues (${pathConflicts.length})</h2>
+            ${pathIssuesHtml}
+        </div>
+        ` : ''}
+
         <div class="section">
             <h2 class="section-title">🎯 Task Breakdown (${quest.tasks.length} tasks)</h2>
             ${tasksHtml}
         </div>
 
+        ${revisions.length > 0 ? `
+        <div class="section">
+            <h2 class="section-title">🕘 Revision History (${revisions.length})</h2>
+            ${revisions.length > 1 ? `
+            <div class="revision-compare">
+                Compare <select id="compare-from">${revisionOptions}</select>
+                with <select id="compare-to">${revisionOptions}</select>
+                <button class="btn-small" onclick="compareSelected()">Compare</button>
+            </div>
+            ` : ''}
+            <div id="revision-diff"></div>
+            ${revisionsHtml}
+            ${canRevert ? '' : '<div class="revision-meta">Revisions can only be restored before execution starts.</div>'}
+        </div>
+        ` : ''}
+
         <div class="buttons">
-            <button class="btn-approve" onclick="approveQuest()">✅ Approve & Start</button>
+            ${isDraft ? '<button class="btn-approve" onclick="approveQuest()">✅ Approve & Start</button>' : ''}
             <button class="btn-modify" onclick="modifyQuest()">✏️ Modify Spec</button>
-            <button class="btn-cancel" onclick="cancelQuest()">❌ Cancel</button>
+            ${quest.tasks.some(task => task.checkpoint) ? '<button class="btn-modify" onclick="rollbackQuest()">↩ Roll Back Quest</button>' : ''}
+            ${isDraft ? '<button class="btn-cancel" onclick="cancelQuest()">❌ Cancel</button>' : ''}
         </div>
     </div>
 
@@ -410,50 +1162,1298 @@ Response must be valid JSON array of tasks.`;
         function cancelQuest() {
             vscode.postMessage({ command: 'cancel' });
         }
-    </script>
-</body>
-</html>
-`;
-    }
 
-    private async startQuestExecution(quest: QuestSpec): Promise<void> {
-        quest.status = 'in-progress';
-        await this.saveQuests();
-        
-        // Show task execution panel
-        // Implementation for task execution UI
-    }
+        document.addEventListener('click', event => {
+            const button = event.target.closest('button[data-task-id]');
+            if (button) {
+                vscode.postMessage({ command: 'rollbackTask', taskId: button.dataset.taskId });
+            }
+        });
 
-    private async modifySpecification(quest: QuestSpec): Promise<void> {
-        // Implementation for spec modification
-        vscode.window.showInformationMessage('Modification feature coming soon!');
-    }
+        function rollbackQuest() {
+            vscode.postMessage({ command: 'rollbackQuest' });
+        }
 
-    private generateId(): string {
-        return 'quest_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
-    }
+        function compareRevisions(from, to) {
+            vscode.postMessage({ command: 'compareRevisions', from, to });
+        }
 
-    private async loadQuests(): Promise<void> {
-        const questData = this.context.globalState.get<string>('qoder.activeQuests', '{}');
-        try {
-            const quests = JSON.parse(questData);
-            this.activeQuests = new Map(Object.entries(quests));
-        } catch (error) {
-            console.error('Failed to load quests:', error);
-            this.activeQuests = new Map();
+        function compareSelected() {
+            compareRevisions(
+                Number(document.getElementById('compare-from').value),
+                Number(document.getElementById('compare-to').value)
+            );
         }
-    }
 
-    private async saveQuests(): Promise<void> {
-        const questsObj = Object.fromEntries(this.activeQuests);
-        await this.context.globalState.update('qoder.activeQuests', JSON.stringify(questsObj));
-    }
+        function revertRevision(number) {
+            vscode.postMessage({ command: 'revertRevision', number });
+        }
 
-    getActiveQuests(): QuestSpec[] {
-        return Array.from(this.activeQuests.values());
+        // Rendered with textContent so spec text is never interpreted as HTML
+        function renderDiff(message) {
+            const container = document.getElementById('revision-diff');
+            container.innerHTML = '';
+
+            const heading = document.createElement('div');
+            heading.className = 'diff-heading';
+            heading.textContent = 'Revision #' + message.from + ' → #' + message.to;
+            container.appendChild(heading);
+
+            if (message.rows.every(row => row.type === 'same')) {
+                const note = document.createElement('div');
+                note.className = 'revision-meta';
+                note.textContent = 'No differences';
+                container.appendChild(note);
+                return;
+            }
+
+            const table = document.createElement('table');
+            table.className = 'diff';
+            for (const row of message.rows) {
+                const tr = document.createElement('tr');
+                tr.className = row.type;
+                for (const side of ['left', 'right']) {
+                    const td = document.createElement('td');
+                    td.className = side;
+                    td.textContent = row[side] === undefined ? '' : row[side];
+                    tr.appendChild(td);
+                }
+                table.appendChild(tr);
+            }
+            container.appendChild(table);
+            container.scrollIntoView({ behavior: 'smooth' });
+        }
+
+        function revealTask(index) {
+            const task = document.getElementById('task-' + index);
+            if (!task) return;
+            document.querySelectorAll('.task.revealed').forEach(element => element.classList.remove('revealed'));
+            task.classList.add('revealed');
+            task.scrollIntoView({ block: 'center' });
+        }
+
+        window.addEventListener('message', event => {
+            if (event.data.command === 'revisionDiff') {
+                renderDiff(event.data);
+            } else if (event.data.command === 'revealTask') {
+                revealTask(event.data.index);
+            }
+        });
+        revealTask(${quest.tasks.findIndex(task => task.id === revealTaskId)});
+
+        const compareFrom = document.getElementById('compare-from');
+        if (compareFrom) {
+            compareFrom.selectedIndex = compareFrom.options.length - 2;
+            document.getElementById('compare-to').selectedIndex = compareFrom.options.length - 1;
+        }
+    </script>
+</body>
+</html>
+`;
+    }
+
+    private getSpecificationEditorHtml(quest: QuestSpec): string {
+        const editable: SpecificationEdit & { completedTaskIds: string[] } = {
+            title: quest.title,
+            description: quest.description,
+            requirements: [...quest.requirements],
+            tasks: quest.tasks.map(task => ({
+                id: task.id,
+                title: task.title,
+                description: task.description,
+                filePaths: [...task.filePaths],
+                dependencies: [...task.dependencies],
+                verifyCommands: [...task.verifyCommands || []]
+            })),
+            completedTaskIds: quest.tasks.filter(task => task.status === 'completed').map(task => task.id)
+        };
+        // Escaped so spec text cannot close the script tag
+        const initialState = JSON.stringify(editable).replace(/</g, '\\u003c');
+
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Edit Quest Specification</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+        .container {
+            max-width: 800px;
+            margin: 0 auto;
+        }
+        .section {
+            margin: 30px 0;
+            padding: 20px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 8px;
+        }
+        .section-title {
+            font-size: 20px;
+            font-weight: 600;
+            color: var(--vscode-textLink-foreground);
+            margin: 0 0 15px 0;
+        }
+        label {
+            display: block;
+            font-size: 12px;
+            font-weight: 600;
+            opacity: 0.8;
+            margin: 10px 0 4px 0;
+        }
+        input, textarea {
+            width: 100%;
+            box-sizing: border-box;
+            padding: 6px 8px;
+            font-family: inherit;
+            font-size: 13px;
+            color: var(--vscode-input-foreground);
+            background: var(--vscode-input-background);
+            border: 1px solid var(--vscode-input-border, var(--vscode-panel-border));
+            border-radius: 3px;
+        }
+        textarea {
+            resize: vertical;
+            min-height: 60px;
+        }
+        .row {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+            margin: 6px 0;
+        }
+        .task {
+            margin: 15px 0;
+            padding: 15px;
+            background: var(--vscode-inputValidation-infoBackground);
+            border-radius: 6px;
+            border-left: 4px solid var(--vscode-button-background);
+        }
+        .task.completed {
+            opacity: 0.6;
+            border-left-color: var(--vscode-panel-border);
+        }
+        .task-header {
+            display: flex;
+            gap: 8px;
+            align-items: center;
+        }
+        .task-header input {
+            font-weight: 600;
+        }
+        .dependencies {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 4px 14px;
+            font-size: 12px;
+        }
+        .dependencies label {
+            display: inline;
+            font-weight: normal;
+            opacity: 1;
+            margin: 0;
+        }
+        .icon-button {
+            padding: 4px 8px;
+            font-size: 12px;
+            background: var(--vscode-inputOption-activeBackground);
+            color: var(--vscode-foreground);
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            white-space: nowrap;
+        }
+        .icon-button:disabled {
+            opacity: 0.4;
+            cursor: default;
+        }
+        .buttons {
+            display: flex;
+            gap: 15px;
+            margin-top: 40px;
+            justify-content: center;
+        }
+        button.primary, button.secondary {
+            padding: 12px 24px;
+            font-size: 14px;
+            border: none;
+            border-radius: 6px;
+            cursor: pointer;
+            font-weight: 600;
+        }
+        button.primary {
+            background: var(--vscode-button-background);
+            color: var(--vscode-button-foreground);
+        }
+        button.secondary {
+            background: var(--vscode-inputOption-activeBackground);
+            color: var(--vscode-foreground);
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="section">
+            <h2 class="section-title">✏️ Specification</h2>
+            <label for="title">Title</label>
+            <input id="title" oninput="spec.title = this.value">
+            <label for="description">Description</label>
+            <textarea id="description" rows="5" oninput="spec.description = this.value"></textarea>
+        </div>
+
+        <div class="section">
+            <h2 class="section-title">📋 Technical Requirements</h2>
+            <div id="requirements"></div>
+            <button class="icon-button" onclick="addRequirement()">➕ Add requirement</button>
+        </div>
+
+        <div class="section">
+            <h2 class="section-title">🎯 Task Breakdown</h2>
+            <div id="tasks"></div>
+            <button class="icon-button" onclick="addTask()">➕ Add task</button>
+        </div>
+
+        <div class="buttons">
+            <button class="primary" onclick="save(false)">💾 Save</button>
+            <button class="secondary" onclick="save(true)">🤖 Save &amp; Regenerate Affected Tasks</button>
+            <button class="secondary" onclick="vscode.postMessage({ command: 'cancelEdit' })">Discard Changes</button>
+        </div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const spec = ${initialState};
+        const completed = new Set(spec.completedTaskIds);
+
+        function esc(text) {
+            return String(text).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+        }
+
+        function renderRequirements() {
+            document.getElementById('requirements').innerHTML = spec.requirements.map((requirement, index) => \`
+                <div class="row">
+                    <input value="\${esc(requirement)}" oninput="spec.requirements[\${index}] = this.value">
+                    <button class="icon-button" onclick="removeRequirement(\${index})" title="Remove">🗑</button>
+                </div>
+            \`).join('');
+        }
+
+        function renderTasks() {
+            document.getElementById('tasks').innerHTML = spec.tasks.map((task, index) => {
+                const locked = completed.has(task.id);
+                const disabled = locked ? 'disabled' : '';
+                const dependencyOptions = spec.tasks
+                    .map((other, otherIndex) => other.id === task.id ? '' : \`
+                        <label>
+                            <input type="checkbox" style="width: auto" \${disabled}
+                                \${task.dependencies.includes(other.id) ? 'checked' : ''}
+                                onchange="toggleDependency(\${index}, \${otherIndex}, this.checked)">
+                            \${esc(other.title || other.id)}
+                        </label>
+                    \`).join('');
+
+                return \`
+                    <div class="task \${locked ? 'completed' : ''}">
+                        <div class="task-header">
+                            <span>\${index + 1}.</span>
+                            <input value="\${esc(task.title)}" \${disabled} oninput="spec.tasks[\${index}].title = this.value">
+                            <button class="icon-button" onclick="moveTask(\${index}, -1)" \${index === 0 ? 'disabled' : ''} title="Move up">↑</button>
+                            <button class="icon-button" onclick="moveTask(\${index}, 1)" \${index === spec.tasks.length - 1 ? 'disabled' : ''} title="Move down">↓</button>
+                            <button class="icon-button" onclick="removeTask(\${index})" \${disabled} title="Remove">🗑</button>
+                        </div>
+                        \${locked ? '<div style="font-size: 12px">✅ Completed tasks cannot be changed</div>' : ''}
+                        <label>Description</label>
+                        <textarea rows="3" \${disabled} oninput="spec.tasks[\${index}].description = this.value">\${esc(task.description)}</textarea>
+                        <label>Files (comma separated)</label>
+                        <input value="\${esc(task.filePaths.join(', '))}" \${disabled}
+                            oninput="spec.tasks[\${index}].filePaths = this.value.split(',').map(p => p.trim()).filter(Boolean)">
+                        <label>Verify with (one command per line)</label>
+                        <textarea rows="2" \${disabled}
+                            oninput="spec.tasks[\${index}].verifyCommands = this.value.split('\\n').map(c => c.trim()).filter(Boolean)">\${esc((task.verifyCommands || []).join('\\n'))}</textarea>
+                        <label>Depends on</label>
+                        <div class="dependencies">\${dependencyOptions || '<span style="opacity: 0.6">No other tasks</span>'}</div>
+                    </div>
+                \`;
+            }).join('');
+        }
+
+        function addRequirement() {
+            spec.requirements.push('');
+            renderRequirements();
+        }
+
+        function removeRequirement(index) {
+            spec.requirements.splice(index, 1);
+            renderRequirements();
+        }
+
+        function addTask() {
+            let number = spec.tasks.length + 1;
+            while (spec.tasks.some(task => task.id === 'task_' + number)) number++;
+            spec.tasks.push({ id: 'task_' + number, title: 'New task', description: '', filePaths: [], dependencies: [], verifyCommands: [] });
+            renderTasks();
+        }
+
+        function removeTask(index) {
+            const [removed] = spec.tasks.splice(index, 1);
+            spec.tasks.forEach(task => {
+                task.dependencies = task.dependencies.filter(id => id !== removed.id);
+            });
+            renderTasks();
+        }
+
+        function moveTask(index, offset) {
+            const [task] = spec.tasks.splice(index, 1);
+            spec.tasks.splice(index + offset, 0, task);
+            renderTasks();
+        }
+
+        function toggleDependency(index, otherIndex, checked) {
+            const id = spec.tasks[otherIndex].id;
+            const dependencies = spec.tasks[index].dependencies.filter(dependency => dependency !== id);
+            spec.tasks[index].dependencies = checked ? [...dependencies, id] : dependencies;
+        }
+
+        function save(regenerate) {
+            vscode.postMessage({
+                command: 'saveEdit',
+                regenerate,
+                spec: {
+                    title: spec.title,
+                    description: spec.description,
+                    requirements: spec.requirements,
+                    tasks: spec.tasks
+                }
+            });
+        }
+
+        document.getElementById('title').value = spec.title;
+        document.getElementById('description').value = spec.description;
+        renderRequirements();
+        renderTasks();
+    </script>
+</body>
+</html>
+`;
+    }
+
+    private getGenerationHtml(): string {
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Quest Specification</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+        .container {
+            max-width: 800px;
+            margin: 0 auto;
+        }
+        .section {
+            margin: 20px 0;
+            padding: 20px;
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 8px;
+        }
+        .section-title {
+            font-size: 18px;
+            font-weight: 600;
+            color: var(--vscode-textLink-foreground);
+            margin: 0 0 10px 0;
+        }
+        .stream {
+            white-space: pre-wrap;
+            font-family: 'SF Mono', Consolas, monospace;
+            font-size: 13px;
+            opacity: 0.9;
+        }
+        .buttons {
+            display: flex;
+            justify-content: center;
+            margin-top: 30px;
+        }
+        button {
+            padding: 12px 24px;
+            font-size: 14px;
+            border: none;
+            border-radius: 6px;
+            cursor: pointer;
+            font-weight: 600;
+            background: var(--vscode-inputValidation-errorBackground);
+            color: var(--vscode-inputValidation-errorForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <div class="section">
+            <h2 class="section-title">📋 Specification</h2>
+            <div class="stream" id="spec"></div>
+        </div>
+        <div class="section">
+            <h2 class="section-title">🎯 Task Breakdown</h2>
+            <div class="stream" id="tasks"></div>
+        </div>
+        <div class="buttons">
+            <button id="stop" onclick="stopGeneration()">⏹ Stop</button>
+        </div>
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+
+        window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.command === 'token') {
+                document.getElementById(message.section).textContent += message.text;
+            }
+        });
+
+        function stopGeneration() {
+            document.getElementById('stop').disabled = true;
+            vscode.postMessage({ command: 'cancel' });
+        }
+    </script>
+</body>
+</html>
+`;
+    }
+
+    // Restores the working tree to before the task and reopens it along with every task applied after it
+    async rollbackTask(questId?: string, taskId?: string): Promise<void> {
+        if (!questId || !taskId) {
+            const selected = await vscode.window.showQuickPick(
+                this.getActiveQuests().flatMap(q => this.getCheckpointedTasks(q).map(t => ({
+                    label: t.title,
+                    description: q.title,
+                    questId: q.id,
+                    taskId: t.id
+                }))),
+                { placeHolder: 'Select the task to roll back' }
+            );
+            if (!selected) return;
+            questId = selected.questId;
+            taskId = selected.taskId;
+        }
+
+        const quest = this.activeQuests.get(questId);
+        const task = quest?.tasks.find(t => t.id === taskId);
+        if (!quest || !task) return;
+
+        if (!task.checkpoint) {
+            vscode.window.showInformationMessage(`Task "${task.title}" has no checkpoint to roll back to`);
+            return;
+        }
+        await this.rollbackTo(quest, task.checkpoint, `before "${task.title}"`);
+    }
+
+    async rollbackQuest(questId?: string): Promise<void> {
+        if (!questId) {
+            const selected = await vscode.window.showQuickPick(
+                this.getActiveQuests()
+                    .filter(q => q.tasks.some(t => t.checkpoint))
+                    .map(q => ({ label: q.title, description: `${this.getCheckpointedTasks(q).length} checkpoint(s)`, questId: q.id })),
+                { placeHolder: 'Select the quest to roll back' }
+            );
+            if (!selected) return;
+            questId = selected.questId;
+        }
+
+        const quest = this.activeQuests.get(questId);
+        if (!quest) return;
+
+        const first = this.getCheckpointedTasks(quest)[0];
+        if (!first) {
+            vscode.window.showInformationMessage(`Quest "${quest.title}" has no checkpoints to roll back to`);
+            return;
+        }
+        await this.rollbackTo(quest, first.checkpoint!, `before quest "${quest.title}" changed any files`);
+    }
+
+    private async rollbackTo(quest: QuestSpec, checkpoint: TaskCheckpoint, label: string): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder) {
+            vscode.window.showWarningMessage('Open the quest\'s workspace folder to roll back');
+            return;
+        }
+        if (this.isRunning(quest.id)) {
+            vscode.window.showWarningMessage(`Quest "${quest.title}" is running. Pause it before rolling back.`);
+            return;
+        }
+
+        const since = new Date(checkpoint.createdAt).getTime();
+        const reopened = quest.tasks.filter(task =>
+            (task.checkpoint && new Date(task.checkpoint.createdAt).getTime() >= since) ||
+            (task.completedAt && new Date(task.completedAt).getTime() >= since)
+        );
+
+        const choice = await vscode.window.showWarningMessage(
+            `Restore the workspace to ${label}? ${reopened.length} task(s) will be reopened and every file change made since then, including your own edits, will be discarded.`,
+            { modal: true },
+            'Roll Back'
+        );
+        if (choice !== 'Roll Back') return;
+
+        let restored: number;
+        try {
+            restored = await this.checkpoints.restore(workspaceFolder.uri.fsPath, checkpoint);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Rollback failed: ${error instanceof Error ? error.message : error}`);
+            return;
+        }
+
+        for (const task of reopened) {
+            task.status = 'pending';
+            task.completedAt = undefined;
+            task.checkpoint = undefined;
+            task.verification = undefined;
+        }
+        if (quest.status === 'in-progress' || quest.status === 'completed') {
+            quest.status = 'approved';
+            quest.completedAt = undefined;
+        }
+        await this.saveQuests();
+        this.refreshSpecificationPanel(quest);
+        vscode.window.showInformationMessage(`Rolled back to ${label}: ${restored} file(s) restored`);
+    }
+
+    private getCheckpointedTasks(quest: QuestSpec): QuestTask[] {
+        return quest.tasks
+            .filter(task => task.checkpoint)
+            .sort((a, b) => new Date(a.checkpoint!.createdAt).getTime() - new Date(b.checkpoint!.createdAt).getTime());
+    }
+
+    private async deleteCheckpoints(quest: QuestSpec): Promise<void> {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!workspaceFolder || !quest.tasks.some(task => task.checkpoint)) return;
+
+        try {
+            await this.checkpoints.deleteAll(workspaceFolder.uri.fsPath, quest.id);
+        } catch (error) {
+            console.warn('Failed to delete quest checkpoints:', error);
+        }
+    }
+
+    async openQuest(questId?: string): Promise<void> {
+        const quest = await this.findQuest(questId, 'Select a quest to open');
+        if (quest) {
+            await this.showSpecificationPanel(quest);
+        }
+    }
+
+    // Shows the task in the quest's spec panel, reusing the panel if it already shows the quest
+    async openTask(questId: string, taskId: string): Promise<void> {
+        const quest = this.activeQuests.get(questId);
+        if (!quest) return;
+
+        if (this.questPanel && this.panelQuestId === quest.id) {
+            this.questPanel.reveal();
+            this.questPanel.webview.postMessage({ command: 'revealTask', index: quest.tasks.findIndex(task => task.id === taskId) });
+        } else {
+            await this.showSpecificationPanel(quest, taskId);
+        }
+    }
+
+    async openTaskFiles(questId: string, taskId: string): Promise<void> {
+        const task = this.activeQuests.get(questId)?.tasks.find(t => t.id === taskId);
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (!task || !workspaceFolder) return;
+
+        const files = task.filePaths
+            .map(filePath => ({ label: filePath, absolutePath: path.resolve(workspaceFolder.uri.fsPath, filePath) }))
+            .filter(file => fs.existsSync(file.absolutePath) && fs.statSync(file.absolutePath).isFile());
+        if (files.length === 0) {
+            vscode.window.showInformationMessage(
+                task.filePaths.length > 0
+                    ? `None of the files of "${task.title}" exist yet`
+                    : `Task "${task.title}" has no files`
+            );
+            return;
+        }
+
+        const selected = files.length === 1
+            ? files[0]
+            : await vscode.window.showQuickPick(files, { placeHolder: `Open a file of "${task.title}"` });
+        if (selected) {
+            await vscode.window.showTextDocument(vscode.Uri.file(selected.absolutePath));
+        }
+    }
+
+    /**
+     * Makes the task the next one to run and runs the quest from there.
+     * Any other interrupted task goes back to pending.
+     */
+    async startTask(questId: string, taskId: string): Promise<void> {
+        const quest = this.activeQuests.get(questId);
+        const task = quest?.tasks.find(t => t.id === taskId);
+        if (!quest || !task || !this.checkNotRunning(quest)) return;
+
+        if (quest.status === 'draft') {
+            vscode.window.showWarningMessage(`Quest "${quest.title}" must be approved before its tasks can run`);
+            return;
+        }
+        if (isTaskDone(task)) {
+            vscode.window.showInformationMessage(`Task "${task.title}" is already ${task.status}. Reset it to run it again.`);
+            return;
+        }
+        const waitingOn = this.getPlan(quest).blocked.get(task.id);
+        if (waitingOn) {
+            const titles = new Map(quest.tasks.map(t => [t.id, t.title]));
+            vscode.window.showWarningMessage(`Task "${task.title}" is waiting on ${waitingOn.map(id => titles.get(id) || id).join(', ')}`);
+            return;
+        }
+
+        for (const other of quest.tasks) {
+            if (other !== task && other.status === 'in-progress') {
+                other.status = 'pending';
+            }
+        }
+        task.status = 'in-progress';
+        await this.saveQuests();
+        await this.startQuestExecution(quest);
+    }
+
+    // Marks a task completed, skipped or pending by hand; no files are changed
+    async setTaskStatus(questId: string, taskId: string, status: 'completed' | 'skipped' | 'pending'): Promise<void> {
+        const quest = this.activeQuests.get(questId);
+        const task = quest?.tasks.find(t => t.id === taskId);
+        if (!quest || !task || !this.checkNotRunning(quest)) return;
+
+        task.status = status;
+        task.completedAt = status === 'completed' ? new Date() : undefined;
+        if (status === 'pending') {
+            task.verification = undefined;
+        }
+
+        // The quest is done once every task is; reopening a task reopens the quest
+        if (quest.status !== 'draft') {
+            if (quest.tasks.every(isTaskDone)) {
+                if (quest.status !== 'completed') {
+                    quest.status = 'completed';
+                    quest.completedAt = new Date();
+                }
+            } else if (quest.status === 'completed') {
+                quest.status = 'approved';
+                quest.completedAt = undefined;
+            }
+        }
+
+        await this.saveQuests();
+        this.refreshSpecificationPanel(quest);
+        await this.archiveIfCompleted(quest);
+    }
+
+    async archiveQuest(questId?: string): Promise<void> {
+        const quest = await this.findQuest(questId, 'Select the quest to archive');
+        if (!quest || !this.checkNotRunning(quest)) return;
+
+        quest.archivedAt = new Date();
+        await this.saveQuests();
+        if (this.panelQuestId === quest.id) {
+            this.questPanel?.dispose();
+        }
+        vscode.window.showInformationMessage(`Quest "${quest.title}" archived`);
+    }
+
+    async restoreQuest(questId: string): Promise<void> {
+        const quest = this.activeQuests.get(questId);
+        if (!quest?.archivedAt) return;
+
+        quest.archivedAt = undefined;
+        quest.cancelledAt = undefined;
+        await this.saveQuests();
+        vscode.window.showInformationMessage(`Quest "${quest.title}" restored to Active Quests`);
+    }
+
+    /**
+     * Searches archived quests by title, description and requirement text,
+     * then offers to open, restore or delete the selected one.
+     */
+    async browseArchive(): Promise<void> {
+        const archived = this.getArchivedQuests()
+            .sort((a, b) => new Date(b.archivedAt!).getTime() - new Date(a.archivedAt!).getTime());
+        if (archived.length === 0) {
+            vscode.window.showInformationMessage('The quest archive is empty');
+            return;
+        }
+
+        const toItem = (quest: QuestSpec) => {
+            const stats = getQuestStats(quest);
+            return {
+                label: quest.title,
+                description: `${quest.cancelledAt ? 'cancelled' : quest.status} · archived ${new Date(quest.archivedAt!).toLocaleDateString()} · ${stats.doneCount}/${stats.taskCount} tasks`,
+                detail: quest.requirements.join(' · '),
+                alwaysShow: true, // Filtering is done by matchesQuery, which also searches requirements
+                quest
+            };
+        };
+
+        const quickPick = vscode.window.createQuickPick<ReturnType<typeof toItem>>();
+        quickPick.placeholder = 'Search archived quests by title or requirement';
+        quickPick.items = archived.map(toItem);
+        quickPick.onDidChangeValue(query => {
+            quickPick.items = archived.filter(quest => matchesQuery(quest, query)).map(toItem);
+        });
+
+        const selected = await new Promise<QuestSpec | undefined>(resolve => {
+            quickPick.onDidAccept(() => {
+                resolve(quickPick.selectedItems[0]?.quest);
+                quickPick.hide();
+            });
+            quickPick.onDidHide(() => {
+                resolve(undefined);
+                quickPick.dispose();
+            });
+            quickPick.show();
+        });
+        if (!selected) return;
+
+        const action = await vscode.window.showQuickPick(['Open', 'Restore to Active Quests', 'Delete'], { placeHolder: selected.title });
+        if (action === 'Open') {
+            await this.openQuest(selected.id);
+        } else if (action === 'Restore to Active Quests') {
+            await this.restoreQuest(selected.id);
+        } else if (action === 'Delete') {
+            await this.deleteQuest(selected.id);
+        }
+    }
+
+    private async archiveIfCompleted(quest: QuestSpec): Promise<void> {
+        if (quest.status !== 'completed' || quest.archivedAt) return;
+        if (!vscode.workspace.getConfiguration('qoder').get<boolean>('quest.archiveCompleted', true)) return;
+
+        quest.archivedAt = new Date();
+        await this.saveQuests();
+    }
+
+    async deleteQuest(questId?: string): Promise<void> {
+        const quest = await this.findQuest(questId, 'Select the quest to delete');
+        if (!quest || !this.checkNotRunning(quest)) return;
+
+        const choice = await vscode.window.showWarningMessage(
+            `Delete quest "${quest.title}"? Its revision history and checkpoints are deleted too. Files changed by its tasks are kept.`,
+            { modal: true },
+            'Delete'
+        );
+        if (choice !== 'Delete') return;
+
+        await this.removeQuest(quest);
+        vscode.window.showInformationMessage(`Quest "${quest.title}" deleted`);
+    }
+
+    private async removeQuest(quest: QuestSpec): Promise<void> {
+        await this.deleteCheckpoints(quest);
+        this.history.delete(quest.id);
+        this.activeQuests.delete(quest.id);
+        await this.saveQuests();
+        if (this.panelQuestId === quest.id) {
+            this.questPanel?.dispose();
+        }
+    }
+
+    // Asks which active quest is meant when no id is given
+    private async findQuest(questId: string | undefined, placeHolder: string): Promise<QuestSpec | undefined> {
+        if (questId) {
+            return this.activeQuests.get(questId);
+        }
+        const selected = await vscode.window.showQuickPick(
+            this.getActiveQuests().map(quest => ({ label: quest.title, description: quest.status, quest })),
+            { placeHolder }
+        );
+        return selected?.quest;
+    }
+
+    // Approving or cancelling a started, finished or archived quest would rewrite its timeline
+    private checkDraft(quest: QuestSpec): boolean {
+        if (quest.status !== 'draft' || quest.archivedAt) {
+            vscode.window.showWarningMessage(`Quest "${quest.title}" is ${quest.archivedAt ? 'archived' : quest.status}; only draft quests can be approved or cancelled`);
+            return false;
+        }
+        return true;
+    }
+
+    private checkNotRunning(quest: QuestSpec): boolean {
+        if (this.handoff.isRunning(quest.id)) {
+            vscode.window.showWarningMessage(`Quest "${quest.title}" is with the Codex marathon runner. Wait for it or stop it first.`);
+            return false;
+        }
+        if (this.executor.isRunning(quest.id)) {
+            vscode.window.showWarningMessage(`Quest "${quest.title}" is running. Pause it first.`);
+            return false;
+        }
+        return true;
+    }
+
+    // Running locally or handed off to Codex
+    private isRunning(questId: string): boolean {
+        return this.executor.isRunning(questId) || this.handoff.isRunning(questId);
+    }
+
+    private refreshSpecificationPanel(quest: QuestSpec): void {
+        if (this.questPanel && this.panelQuestId === quest.id) {
+            this.questPanel.webview.html = this.getSpecificationHtml(quest);
+        }
+    }
+
+    private async startQuestExecution(quest: QuestSpec): Promise<void> {
+        if (this.handoff.isRunning(quest.id)) {
+            vscode.window.showWarningMessage(`Quest "${quest.title}" is with the Codex marathon runner`);
+            return;
+        }
+        await this.executor.execute(quest);
+        await this.archiveIfCompleted(quest);
+    }
+
+    /**
+     * Dispatches unfinished tasks of an approved quest to cxmarathon. With
+     * a task id only that task goes; otherwise the user picks which ones.
+     */
+    async handOffQuest(questId?: string, taskId?: string): Promise<void> {
+        const quest = await this.findQuest(questId, 'Select the quest to hand off to Codex');
+        if (!quest || !this.checkNotRunning(quest)) return;
+
+        if (quest.status === 'draft') {
+            vscode.window.showWarningMessage(`Quest "${quest.title}" must be approved before it can be handed off`);
+            return;
+        }
+        const unfinished = this.getPlan(quest).order.filter(task => !isTaskDone(task));
+        if (unfinished.length === 0) {
+            vscode.window.showInformationMessage(`Quest "${quest.title}" has no unfinished tasks`);
+            return;
+        }
+
+        let tasks: QuestTask[];
+        if (taskId) {
+            tasks = unfinished.filter(task => task.id === taskId);
+            if (tasks.length === 0) return;
+        } else {
+            const selected = await vscode.window.showQuickPick(
+                unfinished.map(task => ({ label: task.title, description: task.status, picked: true, task })),
+                { placeHolder: 'Select the tasks to hand off to Codex', canPickMany: true }
+            );
+            if (!selected || selected.length === 0) return;
+            tasks = selected.map(item => item.task);
+        }
+
+        await this.handoff.dispatch(quest, tasks);
+        this.refreshSpecificationPanel(quest);
+        await this.archiveIfCompleted(quest);
+    }
+
+    // Runs or resumes an approved quest; asks which one when no id is given
+    async runQuest(questId?: string): Promise<void> {
+        const runnable = this.getActiveQuests().filter(quest => quest.status === 'approved' || quest.status === 'in-progress');
+
+        let quest = questId ? this.activeQuests.get(questId) : undefined;
+        if (!questId) {
+            if (runnable.length === 0) {
+                vscode.window.showInformationMessage('No approved quests to run');
+                return;
+            }
+            const selected = await vscode.window.showQuickPick(runnable.map(q => ({
+                label: q.title,
+                description: `${q.tasks.filter(isTaskDone).length}/${q.tasks.length} tasks done`,
+                quest: q
+            })), { placeHolder: 'Select a quest to run' });
+            quest = selected?.quest;
+        }
+
+        if (!quest) return;
+        if (quest.status === 'draft') {
+            vscode.window.showWarningMessage(`Quest "${quest.title}" must be approved before it can run`);
+            return;
+        }
+        await this.startQuestExecution(quest);
+    }
+
+    // Quests left in progress by a reload or crash can pick up at the interrupted task
+    private async offerResume(): Promise<void> {
+        const interrupted = this.getActiveQuests().filter(quest => quest.status === 'in-progress');
+        for (const quest of interrupted) {
+            const done = quest.tasks.filter(isTaskDone).length;
+            const choice = await vscode.window.showInformationMessage(
+                `Quest "${quest.title}" was interrupted (${done}/${quest.tasks.length} tasks done).`,
+                'Resume'
+            );
+            if (choice === 'Resume' && !this.isRunning(quest.id)) {
+                await this.startQuestExecution(quest);
+            }
+        }
+    }
+
+    // Quests kept in global storage may come from any project, so the user picks the ones that belong here
+    private async offerGlobalQuestMove(): Promise<void> {
+        const quests = this.store.getMovableGlobalQuests()
+            .map(id => this.activeQuests.get(id))
+            .filter((quest): quest is QuestSpec => !!quest);
+        if (quests.length === 0) return;
+
+        const choice = await vscode.window.showInformationMessage(
+            `${quests.length} quest(s) are kept in VS Code's global storage, shared by all folders. Move the ones that belong to this folder to .qoder/quests?`,
+            'Choose Quests',
+            'Keep Global'
+        );
+        if (choice === 'Keep Global') {
+            this.store.markGlobalQuestsReviewed();
+            return;
+        }
+        if (choice !== 'Choose Quests') return;
+
+        const selected = await vscode.window.showQuickPick(
+            quests.map(quest => ({
+                label: quest.title,
+                description: quest.archivedAt ? 'archived' : quest.status,
+                detail: `Created ${quest.createdAt.toLocaleDateString()} · ${quest.tasks.length} task(s)`,
+                questId: quest.id
+            })),
+            { canPickMany: true, placeHolder: 'Select the quests to write to .qoder/quests in this folder; the rest stay global' }
+        );
+        if (!selected) return;
+
+        this.store.markGlobalQuestsReviewed();
+        if (selected.length === 0) return;
+
+        this.store.moveToWorkspace(selected.map(item => item.questId));
+        await this.saveQuests();
+        vscode.window.showInformationMessage(`Moved ${selected.length} quest(s) to .qoder/quests`);
+    }
+
+    // Switches the specification panel into the editor
+    private async modifySpecification(quest: QuestSpec): Promise<void> {
+        if (this.isRunning(quest.id)) {
+            vscode.window.showWarningMessage(`Quest "${quest.title}" is running. Pause it before editing the specification.`);
+            return;
+        }
+        if (this.questPanel) {
+            this.questPanel.webview.html = this.getSpecificationEditorHtml(quest);
+        }
+    }
+
+    private async saveSpecificationEdit(quest: QuestSpec, edit: SpecificationEdit, regenerate: boolean): Promise<void> {
+        if (this.isRunning(quest.id)) {
+            vscode.window.showWarningMessage(`Quest "${quest.title}" is running. Pause it before editing the specification.`);
+            return;
+        }
+        if (!edit.title.trim()) {
+            vscode.window.showErrorMessage('Quest title cannot be empty');
+            return;
+        }
+
+        this.history.ensureBaseline(quest);
+        const previousRequirements = quest.requirements;
+        quest.title = edit.title.trim();
+        quest.description = edit.description.trim();
+        quest.requirements = edit.requirements.map(requirement => requirement.trim()).filter(Boolean);
+        quest.tasks = this.mergeEditedTasks(quest.tasks, edit.tasks);
+        this.history.record(quest, 'manual', this.getUserName(), 'Edited specification');
+
+        if (regenerate) {
+            const added = quest.requirements.filter(requirement => !previousRequirements.includes(requirement));
+            const removed = previousRequirements.filter(requirement => !quest.requirements.includes(requirement));
+
+            if (added.length === 0 && removed.length === 0) {
+                vscode.window.showInformationMessage('Requirements did not change, so no tasks were regenerated');
+            } else {
+                await this.regenerateAffectedTasks(quest, added, removed);
+            }
+        }
+
+        await this.saveQuests();
+        if (this.questPanel) {
+            this.questPanel.title = `Quest: ${quest.title}`;
+            this.questPanel.webview.html = this.getSpecificationHtml(quest);
+        }
+        vscode.window.showInformationMessage('Quest specification saved');
+    }
+
+    private postRevisionDiff(quest: QuestSpec, fromNumber: number, toNumber: number): void {
+        const revisions = this.history.getRevisions(quest.id);
+        const from = revisions.find(revision => revision.number === fromNumber);
+        const to = revisions.find(revision => revision.number === toNumber);
+        if (!from || !to) return;
+
+        this.questPanel?.webview.postMessage({
+            command: 'revisionDiff',
+            from: from.number,
+            to: to.number,
+            rows: this.history.diff(from.snapshot, to.snapshot)
+        });
+    }
+
+    // Once a task has started, restoring an old spec could orphan work already done
+    private canRevert(quest: QuestSpec): boolean {
+        return (quest.status === 'draft' || quest.status === 'approved') &&
+            quest.tasks.every(task => task.status === 'pending') &&
+            !this.isRunning(quest.id);
+    }
+
+    private async revertToRevision(quest: QuestSpec, number: number): Promise<void> {
+        if (!this.canRevert(quest)) {
+            vscode.window.showWarningMessage('Revisions can only be restored before the quest starts executing');
+            return;
+        }
+        const revision = this.history.getRevisions(quest.id).find(r => r.number === number);
+        if (!revision) return;
+
+        const choice = await vscode.window.showWarningMessage(
+            `Restore revision #${number} of "${quest.title}"?` +
+                (quest.status === 'approved' ? ' The quest will need to be approved again.' : ''),
+            { modal: true },
+            'Restore'
+        );
+        if (choice !== 'Restore') return;
+
+        const { snapshot } = revision;
+        quest.title = snapshot.title;
+        quest.description = snapshot.description;
+        quest.requirements = [...snapshot.requirements];
+        quest.tasks = this.mergeEditedTasks(quest.tasks, snapshot.tasks);
+        if (quest.status === 'approved') {
+            quest.status = 'draft';
+            quest.approvedAt = undefined;
+        }
+        this.history.record(quest, 'manual', this.getUserName(), `Restored revision #${number}`);
+
+        await this.saveQuests();
+        if (this.questPanel) {
+            this.questPanel.title = `Quest: ${quest.title}`;
+            this.questPanel.webview.html = this.getSpecificationHtml(quest);
+        }
+        vscode.window.showInformationMessage(`Restored revision #${number}`);
+    }
+
+    private getUserName(): string {
+        try {
+            return os.userInfo().username;
+        } catch {
+            return 'unknown';
+        }
+    }
+
+    private escapeHtml(text: string): string {
+        return text
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;')
+            .replace(/'/g, '&#039;');
+    }
+
+    private getVerificationLabel(task: QuestTask): string {
+        if (!task.verification) return '';
+        const failed = task.verification.results.filter(result => result.exitCode !== 0).map(result => result.command);
+        return task.verification.passed
+            ? ' · ✅ passed'
+            : ` · ❌ failed${failed.length > 0 ? ` (${failed.join(', ')})` : ''}`;
+    }
+
+    private getModelName(): string {
+        try {
+            const provider = this.llm.getProvider('quest');
+            return `${provider.type}/${provider.model}`;
+        } catch {
+            return 'unknown';
+        }
+    }
+
+    // Keeps status and timestamps of existing tasks; completed tasks cannot be changed from the editor
+    private mergeEditedTasks(current: QuestTask[], edited: EditableTask[]): QuestTask[] {
+        const existing = new Map(current.map(task => [task.id, task]));
+
+        return edited.map(task => {
+            const previous = existing.get(task.id);
+            if (previous?.status === 'completed') {
+                return previous;
+            }
+            return {
+                id: task.id,
+                title: task.title.trim() || task.id,
+                description: task.description.trim(),
+                filePaths: task.filePaths.map(filePath => filePath.trim()).filter(Boolean),
+                dependencies: [...new Set(task.dependencies)],
+                status: previous?.status || 'pending',
+                createdAt: previous?.createdAt || new Date(),
+                completedAt: previous?.completedAt,
+                checkpoint: previous?.checkpoint,
+                verifyCommands: (task.verifyCommands ?? previous?.verifyCommands ?? []).map(command => command.trim()).filter(Boolean),
+                verification: previous?.verification,
+                attempts: previous?.attempts,
+                estimateHours: this.normalizeEstimate(task.estimateHours) ?? previous?.estimateHours,
+                activeMs: previous?.activeMs
+            };
+        });
+    }
+
+    /**
+     * Asks the model which unfinished tasks a requirement change affects and
+     * replaces only those. Completed tasks are never removed or rewritten;
+     * on failure or cancellation the manual edits are kept as they are.
+     */
+    private async regenerateAffectedTasks(quest: QuestSpec, added: string[], removed: string[]): Promise<void> {
+        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        const digest = workspacePath && this.store.getLocation(quest.id) === 'workspace'
+            ? await this.projectContext.getDigest(workspacePath)
+            : '';
+        const taskList = quest.tasks.map(task =>
+            `- id: ${task.id} [${task.status}]\n  title: ${task.title}\n  description: ${task.description}\n` +
+            `  files: ${task.filePaths.join(', ') || '(none)'}\n  depends on: ${task.dependencies.join(', ') || '(none)'}\n` +
+            `  verify with: ${task.verifyCommands?.join(', ') || '(none)'}\n  estimate: ${task.estimateHours ? `${task.estimateHours}h` : '(none)'}`
+        ).join('\n');
+
+        const prompt = `You are a senior developer updating the task breakdown of a project after its requirements changed.
+
+Project: ${quest.title}
+Description: ${quest.description}${this.formatDigestSection(digest)}
+Current requirements:
+- ${quest.requirements.join('\n- ')}
+
+Added requirements:
+${added.length > 0 ? added.map(requirement => `- ${requirement}`).join('\n') : '(none)'}
+Removed requirements:
+${removed.length > 0 ? removed.map(requirement => `- ${requirement}`).join('\n') : '(none)'}
+
+Current tasks:
+${taskList}
+
+Only change tasks affected by the requirement change. Respond with JSON containing:
+- removeTaskIds: ids of tasks that are no longer needed
+- tasks: new or rewritten tasks, each with id, title, description, filePaths, dependencies, verifyCommands and estimateHours (hours of focused work).
+  Reuse an existing id to rewrite that task; use a new unique id for a new task.${this.getEstimateCalibration()}
+Never remove or rewrite completed tasks. Response must be valid JSON.`;
+
+        await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: '🤖 Regenerating affected tasks...',
+            cancellable: true
+        }, async (progress, token) => {
+            const controller = createAbortController(token);
+
+            try {
+                const result = await this.llm.completeStructured<TaskRegeneration>({
+                    feature: 'quest',
+                    operation: 'quest.regenerateTasks',
+                    messages: [{ role: 'user', content: prompt }],
+                    temperature: 0.4,
+                    maxTokens: 2000,
+                    signal: controller.signal
+                }, taskRegenerationSchema);
+
+                const completed = new Set(quest.tasks.filter(task => task.status === 'completed').map(task => task.id));
+                const removedIds = new Set(result.removeTaskIds.filter(id => !completed.has(id)));
+                const rewritten = new Map(result.tasks.filter(task => !completed.has(task.id)).map(task => [task.id, task]));
+
+                const tasks = quest.tasks
+                    .filter(task => !removedIds.has(task.id))
+                    .map(task => rewritten.has(task.id) ? this.mergeEditedTasks([task], [rewritten.get(task.id)!])[0] : task);
+                const known = new Set(tasks.map(task => task.id));
+                for (const task of rewritten.values()) {
+                    if (!known.has(task.id) && !removedIds.has(task.id)) {
+                        tasks.push(...this.mergeEditedTasks([], [task]));
+                    }
+                }
+                for (const task of tasks) {
+                    task.dependencies = task.dependencies.filter(id => !removedIds.has(id));
+                }
+
+                quest.tasks = tasks;
+                this.history.record(quest, 'ai', this.getModelName(), 'Regenerated tasks affected by requirement changes');
+                vscode.window.showInformationMessage(
+                    `Regenerated tasks: ${rewritten.size} updated or added, ${removedIds.size} removed`
+                );
+            } catch (error) {
+                if (!controller.signal.aborted) {
+                    vscode.window.showErrorMessage(`Failed to regenerate tasks: ${error}`);
+                }
+            }
+        });
+    }
+
+    private generateId(): string {
+        return 'quest_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+    }
+
+    private async loadQuests(): Promise<void> {
+        this.activeQuests = new Map(this.store.load().map(quest => [quest.id, quest]));
+    }
+
+    /**
+     * Picks up quest files edited outside Qoder. Quests and tasks are
+     * updated in place so a running executor keeps working on the same
+     * objects.
+     */
+    private reloadQuests(): void {
+        const loaded = new Map(this.store.load().map(quest => [quest.id, quest]));
+
+        for (const [id, quest] of loaded) {
+            const existing = this.activeQuests.get(id);
+            if (!existing) continue;
+
+            this.history.ensureBaseline(existing);
+            const tasks = new Map(existing.tasks.map(task => [task.id, task]));
+            quest.tasks = quest.tasks.map(task => Object.assign(tasks.get(task.id) || task, task));
+            loaded.set(id, Object.assign(existing, quest));
+            this.history.record(existing, 'manual', 'external edit', 'Edited outside Qoder');
+        }
+
+        this.activeQuests = loaded;
+        this._onDidChangeQuests.fire();
+    }
+
+    private async saveQuests(): Promise<void> {
+        this.timeTracker.sync();
+        await this.store.save(Array.from(this.activeQuests.values()));
+        this._onDidChangeQuests.fire();
+    }
+
+    getActiveQuests(): QuestSpec[] {
+        return Array.from(this.activeQuests.values()).filter(quest => !quest.archivedAt);
+    }
+
+    getArchivedQuests(): QuestSpec[] {
+        return Array.from(this.activeQuests.values()).filter(quest => quest.archivedAt);
+    }
+
+    // Active and archived quests stored in the open workspace
+    getProjectQuests(): QuestSpec[] {
+        return Array.from(this.activeQuests.values()).filter(quest => this.store.getLocation(quest.id) === 'workspace');
+    }
+
+    // Dependency order, unblocked tasks and graph problems for a quest's tasks
+    getPlan(quest: QuestSpec): QuestPlan {
+        return this.planner.plan(quest.tasks);
+    }
+
+    // Quests kept outside the workspace were written without it in mind, so only workspace quests are checked
+    private getPathConflicts(quest: QuestSpec): PathConflict[] {
+        const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+        if (!workspacePath || this.store.getLocation(quest.id) !== 'workspace') return [];
+
+        return this.projectContext.findPathConflicts(quest.tasks.filter(task => !isTaskDone(task)), workspacePath);
     }
 
     dispose(): void {
         this.questPanel?.dispose();
+        this.executor.dispose();
+        this.handoff.dispose();
+        this.timeTracker.dispose();
+        this.store.dispose();
+        this._onDidChangeQuests.dispose();
     }
 }
\ No newline at end of file
@@ -0,0 +1,157 @@
+import { QuestTask } from './QuestManager';
+
+export interface PlanIssue {
+    type: 'duplicate-id' | 'unknown-dependency' | 'self-dependency' | 'cycle';
+    taskIds: string[];
+    message: string;
+}
+
+export interface QuestPlan {
+    order: QuestTask[]; // Dependencies before dependents; tasks caught in cycles are left out
+    unblocked: QuestTask[]; // Unfinished tasks whose dependencies are all done, in order
+    blocked: Map<string, string[]>; // Unfinished task id -> ids it is still waiting on
+    issues: PlanIssue[];
+}
+
+// Skipped tasks count as done: they satisfy dependencies and are not executed
+export function isTaskDone(task: QuestTask): boolean {
+    return task.status === 'completed' || task.status === 'skipped';
+}
+
+/**
+ * Validates the dependency graph of a quest's tasks and schedules them.
+ * References to unknown tasks and self-dependencies are reported but do
+ * not block anything; tasks on a dependency cycle, and everything that
+ * depends on them, can never become unblocked.
+ */
+export class QuestPlanner {
+    plan(tasks: QuestTask[]): QuestPlan {
+        const issues: PlanIssue[] = [];
+
+        // Later duplicates are reported and otherwise ignored so every id maps to one task
+        const byId = new Map<string, QuestTask>();
+        for (const task of tasks) {
+            if (byId.has(task.id)) {
+                issues.push({
+                    type: 'duplicate-id',
+                    taskIds: [task.id],
+                    message: `Task id "${task.id}" is used by both "${byId.get(task.id)!.title}" and "${task.title}"`
+                });
+                continue;
+            }
+            byId.set(task.id, task);
+        }
+        const unique = Array.from(byId.values());
+
+        const dependencies = new Map<string, string[]>();
+        for (const task of unique) {
+            const known: string[] = [];
+            for (const dependency of new Set(task.dependencies)) {
+                if (dependency === task.id) {
+                    issues.push({
+                        type: 'self-dependency',
+                        taskIds: [task.id],
+                        message: `Task "${task.title}" depends on itself`
+                    });
+                } else if (!byId.has(dependency)) {
+                    issues.push({
+                        type: 'unknown-dependency',
+                        taskIds: [task.id],
+                        message: `Task "${task.title}" depends on unknown task "${dependency}"`
+                    });
+                } else {
+                    known.push(dependency);
+                }
+            }
+            dependencies.set(task.id, known);
+        }
+
+        const order = this.topologicalOrder(unique, dependencies);
+        const ordered = new Set(order.map(task => task.id));
+
+        for (const cycle of this.findCycles(unique.filter(task => !ordered.has(task.id)), dependencies)) {
+            issues.push({
+                type: 'cycle',
+                taskIds: cycle,
+                message: `Circular dependency: ${[...cycle, cycle[0]].map(id => byId.get(id)!.title).join(' → ')}`
+            });
+        }
+
+        // Tasks stuck on a cycle come last so they still show up in listings
+        const done = new Set(unique.filter(isTaskDone).map(task => task.id));
+        const unblocked: QuestTask[] = [];
+        const blocked = new Map<string, string[]>();
+
+        for (const task of [...order, ...unique.filter(t => !ordered.has(t.id))]) {
+            if (isTaskDone(task)) continue;
+
+            const waitingOn = dependencies.get(task.id)!.filter(dependency => !done.has(dependency));
+            if (waitingOn.length === 0) {
+                unblocked.push(task);
+            } else {
+                blocked.set(task.id, waitingOn);
+            }
+        }
+
+        return { order, unblocked, blocked, issues };
+    }
+
+    // Kahn's algorithm; ties keep the order the tasks were listed in
+    private topologicalOrder(tasks: QuestTask[], dependencies: Map<string, string[]>): QuestTask[] {
+        const remaining = new Map(tasks.map(task => [task.id, dependencies.get(task.id)!.length]));
+        const dependents = new Map<string, string[]>();
+        for (const task of tasks) {
+            for (const dependency of dependencies.get(task.id)!) {
+                dependents.set(dependency, [...(dependents.get(dependency) || []), task.id]);
+            }
+        }
+
+        const order: QuestTask[] = [];
+        const done = new Set<string>();
+        let progressed = true;
+        while (progressed) {
+            progressed = false;
+            for (const task of tasks) {
+                if (done.has(task.id) || remaining.get(task.id)! > 0) continue;
+
+                order.push(task);
+                done.add(task.id);
+                for (const dependent of dependents.get(task.id) || []) {
+                    remaining.set(dependent, remaining.get(dependent)! - 1);
+                }
+                progressed = true;
+                break;
+            }
+        }
+        return order;
+    }
+
+    // Depth-first search that reports one cycle per back edge it meets
+    private findCycles(tasks: QuestTask[], dependencies: Map<string, string[]>): string[][] {
+        const candidates = new Set(tasks.map(task => task.id));
+        const state = new Map<string, 'visiting' | 'done'>();
+        const stack: string[] = [];
+        const cycles: string[][] = [];
+
+        const visit = (id: string) => {
+            state.set(id, 'visiting');
+            stack.push(id);
+            for (const dependency of dependencies.get(id)!.filter(d => candidates.has(d))) {
+                if (state.get(dependency) === 'visiting') {
+                    cycles.push(stack.slice(stack.indexOf(dependency)));
+                } else if (!state.has(dependency)) {
+                    visit(dependency);
+                }
+            }
+            stack.pop();
+            state.set(id, 'done');
+        };
+
+        for (const task of tasks) {
+            if (!state.has(task.id)) {
+                visit(task.id);
+            }
+        }
+        return cycles;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,246 @@
+import { QuestSpec, QuestTask } from './QuestManager';
+
+/**
+ * Version of the persisted quest format, in globalState and in quest
+ * files. Bump it together with a new entry in MIGRATIONS whenever stored
+ * data changes shape.
+ *
+ * 1: JSON.stringify of the quest map, keyed by id, without a version
+ * 2: explicit records with ISO dates in a versioned envelope
+ */
+export const QUEST_SCHEMA_VERSION = 2;
+
+// JSON-safe form of a quest: dates are ISO strings, optional fields are omitted
+export interface StoredTask {
+    id: string;
+    title: string;
+    description: string;
+    status: QuestTask['status'];
+    filePaths: string[];
+    dependencies: string[];
+    createdAt: string;
+    completedAt?: string;
+    checkpoint?: { commit: string; createdAt: string };
+    verifyCommands?: string[];
+    verification?: { passed: boolean; ranAt: string; results: Array<{ command: string; exitCode: number | null }> };
+    attempts?: number;
+    estimateHours?: number;
+    activeMs?: number;
+}
+
+export interface StoredQuest {
+    id: string;
+    title: string;
+    description: string;
+    requirements: string[];
+    tasks: StoredTask[];
+    status: QuestSpec['status'];
+    createdAt: string;
+    approvedAt?: string;
+    completedAt?: string;
+    cancelledAt?: string;
+    archivedAt?: string;
+}
+
+export interface StoredQuests {
+    schemaVersion: number;
+    quests: StoredQuest[];
+}
+
+export class QuestValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'QuestValidationError';
+    }
+}
+
+const QUEST_STATUSES: QuestSpec['status'][] = ['draft', 'approved', 'in-progress', 'completed'];
+const TASK_STATUSES: QuestTask['status'][] = ['pending', 'in-progress', 'completed', 'skipped'];
+
+// Each migration turns the stored data of version N into version N + 1
+const MIGRATIONS: Record<number, (data: unknown) => unknown> = {
+    1: data => ({
+        schemaVersion: 2,
+        quests: isRecord(data) ? Object.entries(data).map(([id, quest]) => isRecord(quest) ? { id, ...quest, tasks: migrateV1Tasks(quest.tasks) } : quest) : []
+    })
+};
+
+// Version 1 task ids were numbers in older releases; later versions require strings
+function migrateV1Tasks(tasks: unknown): unknown {
+    if (!Array.isArray(tasks)) return tasks;
+    const toId = (value: unknown) => typeof value === 'number' ? String(value) : value;
+    return tasks.map(task => isRecord(task) ? {
+        ...task,
+        id: toId(task.id),
+        dependencies: Array.isArray(task.dependencies) ? task.dependencies.map(toId) : task.dependencies
+    } : task);
+}
+
+/**
+ * Brings stored data of any known version up to QUEST_SCHEMA_VERSION.
+ * The result still has to be validated entry by entry.
+ */
+export function migrateStoredQuests(data: unknown, version: number): { schemaVersion: number; quests: unknown[] } {
+    if (version > QUEST_SCHEMA_VERSION) {
+        throw new QuestValidationError(`Quests were saved by a newer version of Qoder (schema ${version}, supported ${QUEST_SCHEMA_VERSION})`);
+    }
+
+    let current = data;
+    for (let from = version; from < QUEST_SCHEMA_VERSION; from++) {
+        current = MIGRATIONS[from](current);
+    }
+    if (!isRecord(current) || !Array.isArray(current.quests)) {
+        throw new QuestValidationError('Stored quests are not a list');
+    }
+    return { schemaVersion: QUEST_SCHEMA_VERSION, quests: current.quests };
+}
+
+export function serializeQuestRecord(quest: QuestSpec): StoredQuest {
+    return omitUndefined({
+        id: quest.id,
+        title: quest.title,
+        description: quest.description,
+        requirements: [...quest.requirements],
+        tasks: quest.tasks.map(task => omitUndefined<StoredTask>({
+            id: task.id,
+            title: task.title,
+            description: task.description,
+            status: task.status,
+            filePaths: [...task.filePaths],
+            dependencies: [...task.dependencies],
+            createdAt: toIso(task.createdAt),
+            completedAt: task.completedAt && toIso(task.completedAt),
+            checkpoint: task.checkpoint && { commit: task.checkpoint.commit, createdAt: toIso(task.checkpoint.createdAt) },
+            verifyCommands: task.verifyCommands?.length ? [...task.verifyCommands] : undefined,
+            verification: task.verification && {
+                passed: task.verification.passed,
+                ranAt: toIso(task.verification.ranAt),
+                results: task.verification.results.map(({ command, exitCode }) => ({ command, exitCode }))
+            },
+            attempts: task.attempts,
+            estimateHours: task.estimateHours,
+            activeMs: task.activeMs && Math.round(task.activeMs)
+        })),
+        status: quest.status,
+        createdAt: toIso(quest.createdAt),
+        approvedAt: quest.approvedAt && toIso(quest.approvedAt),
+        completedAt: quest.completedAt && toIso(quest.completedAt),
+        cancelledAt: quest.cancelledAt && toIso(quest.cancelledAt),
+        archivedAt: quest.archivedAt && toIso(quest.archivedAt)
+    });
+}
+
+/**
+ * Validates one stored quest and revives its dates. Missing lists default
+ * to empty; anything else that does not fit the schema throws a
+ * QuestValidationError naming the offending field.
+ */
+export function deserializeQuestRecord(raw: unknown): QuestSpec {
+    const quest = expectRecord(raw, 'quest');
+    const tasks = expectArray(quest.tasks, 'tasks').map((value, index) => {
+        const task = expectRecord(value, `tasks[${index}]`);
+        const field = (name: string) => `tasks[${index}].${name}`;
+        const checkpoint = task.checkpoint === undefined ? undefined : expectRecord(task.checkpoint, field('checkpoint'));
+        const verification = task.verification === undefined ? undefined : expectRecord(task.verification, field('verification'));
+
+        return {
+            id: expectString(task.id, field('id')),
+            title: expectString(task.title, field('title')),
+            description: optionalString(task.description, field('description')),
+            status: expectOneOf(task.status, TASK_STATUSES, field('status')),
+            filePaths: optionalStrings(task.filePaths, field('filePaths')),
+            dependencies: optionalStrings(task.dependencies, field('dependencies')),
+            createdAt: expectDate(task.createdAt, field('createdAt')),
+            completedAt: optionalDate(task.completedAt, field('completedAt')),
+            checkpoint: checkpoint && {
+                commit: expectString(checkpoint.commit, field('checkpoint.commit')),
+                createdAt: expectDate(checkpoint.createdAt, field('checkpoint.createdAt'))
+            },
+            verifyCommands: task.verifyCommands === undefined ? undefined : optionalStrings(task.verifyCommands, field('verifyCommands')),
+            verification: verification && {
+                passed: verification.passed === true,
+                ranAt: expectDate(verification.ranAt, field('verification.ranAt')),
+                results: expectArray(verification.results ?? [], field('verification.results')).map((result, resultIndex) => {
+                    const entry = expectRecord(result, field(`verification.results[${resultIndex}]`));
+                    return {
+                        command: expectString(entry.command, field(`verification.results[${resultIndex}].command`)),
+                        exitCode: typeof entry.exitCode === 'number' ? entry.exitCode : null
+                    };
+                })
+            },
+            attempts: typeof task.attempts === 'number' && task.attempts > 0 ? Math.floor(task.attempts) : undefined,
+            estimateHours: typeof task.estimateHours === 'number' && task.estimateHours > 0 ? task.estimateHours : undefined,
+            activeMs: typeof task.activeMs === 'number' && task.activeMs > 0 ? Math.round(task.activeMs) : undefined
+        };
+    });
+
+    return {
+        id: expectString(quest.id, 'id'),
+        title: expectString(quest.title, 'title'),
+        description: optionalString(quest.description, 'description'),
+        requirements: optionalStrings(quest.requirements, 'requirements'),
+        tasks,
+        status: expectOneOf(quest.status, QUEST_STATUSES, 'status'),
+        createdAt: expectDate(quest.createdAt, 'createdAt'),
+        approvedAt: optionalDate(quest.approvedAt, 'approvedAt'),
+        completedAt: optionalDate(quest.completedAt, 'completedAt'),
+        cancelledAt: optionalDate(quest.cancelledAt, 'cancelledAt'),
+        archivedAt: optionalDate(quest.archivedAt, 'archivedAt')
+    };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectRecord(value: unknown, field: string): Record<string, unknown> {
+    if (!isRecord(value)) throw new QuestValidationError(`${field} must be an object`);
+    return value;
+}
+
+function expectArray(value: unknown, field: string): unknown[] {
+    if (!Array.isArray(value)) throw new QuestValidationError(`${field} must be a list`);
+    return value;
+}
+
+function expectString(value: unknown, field: string): string {
+    if (typeof value !== 'string' || !value) throw new QuestValidationError(`${field} must be a non-empty string`);
+    return value;
+}
+
+function optionalString(value: unknown, field: string): string {
+    if (value === undefined || value === null) return '';
+    if (typeof value !== 'string') throw new QuestValidationError(`${field} must be a string`);
+    return value;
+}
+
+function optionalStrings(value: unknown, field: string): string[] {
+    if (value === undefined || value === null) return [];
+    const list = expectArray(value, field);
+    if (!list.every(item => typeof item === 'string')) throw new QuestValidationError(`${field} must only contain strings`);
+    return list as string[];
+}
+
+function expectOneOf<T extends string>(value: unknown, allowed: T[], field: string): T {
+    if (!allowed.includes(value as T)) throw new QuestValidationError(`${field} must be one of ${allowed.join(', ')}`);
+    return value as T;
+}
+
+// Accepts Date objects too, for quests that were never written to disk
+function expectDate(value: unknown, field: string): Date {
+    const date = typeof value === 'string' || typeof value === 'number' || value instanceof Date ? new Date(value) : null;
+    if (!date || isNaN(date.getTime())) throw new QuestValidationError(`${field} must be a date`);
+    return date;
+}
+
+function optionalDate(value: unknown, field: string): Date | undefined {
+    return value === undefined || value === null ? undefined : expectDate(value, field);
+}
+
+function toIso(value: Date | string): string {
+    return new Date(value).toISOString();
+}
+
+function omitUndefined<T extends object>(value: T): T {
+    return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as T;
+}
\ No newline at end of file
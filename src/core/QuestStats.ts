@@ -0,0 +1,142 @@
+import { QuestSpec } from './QuestManager';
+import { isTaskDone } from './QuestPlanner';
+
+export interface QuestStats {
+    taskCount: number;
+    doneCount: number; // Completed or skipped
+    skippedCount: number;
+    rerunTaskCount: number; // Tasks whose changes had to be generated more than once
+    approvalToCompletionMs?: number;
+}
+
+export interface WeeklyThroughput {
+    weekStart: Date; // Monday 00:00 local time
+    questsCompleted: number;
+    tasksCompleted: number;
+}
+
+export interface EstimateSample {
+    questId: string;
+    taskId: string;
+    title: string;
+    estimateHours: number;
+    actualHours: number;
+}
+
+export interface EstimateAccuracy {
+    samples: EstimateSample[]; // Completed tasks with an estimate and tracked time
+    medianRatio: number; // Actual time divided by the estimate; above 1 means tasks take longer than estimated
+    withinRangeShare: number; // Share of tasks within 25% of their estimate, 0..1
+    estimatedHours: number;
+    actualHours: number;
+}
+
+export interface QuestSummary {
+    total: number;
+    active: number;
+    archived: number;
+    completed: number;
+    cancelled: number;
+    averageApprovalToCompletionMs?: number;
+    rerunRate: number; // Share of executed tasks that were re-run, 0..1
+    weekly: WeeklyThroughput[]; // Oldest first
+}
+
+export function getQuestStats(quest: QuestSpec): QuestStats {
+    const approvedAt = quest.approvedAt ? new Date(quest.approvedAt).getTime() : NaN;
+    const completedAt = quest.completedAt ? new Date(quest.completedAt).getTime() : NaN;
+
+    return {
+        taskCount: quest.tasks.length,
+        doneCount: quest.tasks.filter(isTaskDone).length,
+        skippedCount: quest.tasks.filter(task => task.status === 'skipped').length,
+        rerunTaskCount: quest.tasks.filter(task => (task.attempts || 0) > 1).length,
+        approvalToCompletionMs: completedAt >= approvedAt ? completedAt - approvedAt : undefined
+    };
+}
+
+export function summarizeQuests(quests: QuestSpec[], weeks: number = 12): QuestSummary {
+    const durations = quests
+        .map(quest => getQuestStats(quest).approvalToCompletionMs)
+        .filter((duration): duration is number => duration !== undefined);
+    const executed = quests.flatMap(quest => quest.tasks).filter(task => (task.attempts || 0) > 0);
+
+    const thisWeek = startOfWeek(new Date());
+    const weekly: WeeklyThroughput[] = [];
+    for (let i = weeks - 1; i >= 0; i--) {
+        // Stepping by calendar days keeps Mondays aligned across DST changes
+        const weekStart = new Date(thisWeek.getFullYear(), thisWeek.getMonth(), thisWeek.getDate() - i * 7);
+        weekly.push({ weekStart, questsCompleted: 0, tasksCompleted: 0 });
+    }
+    const bucketOf = (date: Date | undefined) => {
+        if (!date) return undefined;
+        const weekStart = startOfWeek(new Date(date)).getTime();
+        return weekly.find(week => week.weekStart.getTime() === weekStart);
+    };
+    for (const quest of quests) {
+        const bucket = quest.cancelledAt ? undefined : bucketOf(quest.completedAt);
+        if (bucket) bucket.questsCompleted++;
+        for (const task of quest.tasks) {
+            const taskBucket = task.status === 'completed' ? bucketOf(task.completedAt) : undefined;
+            if (taskBucket) taskBucket.tasksCompleted++;
+        }
+    }
+
+    return {
+        total: quests.length,
+        active: quests.filter(quest => !quest.archivedAt).length,
+        archived: quests.filter(quest => quest.archivedAt).length,
+        completed: quests.filter(quest => quest.status === 'completed').length,
+        cancelled: quests.filter(quest => quest.cancelledAt).length,
+        averageApprovalToCompletionMs: durations.length > 0
+            ? durations.reduce((sum, duration) => sum + duration, 0) / durations.length
+            : undefined,
+        rerunRate: executed.length > 0 ? executed.filter(task => task.attempts! > 1).length / executed.length : 0,
+        weekly
+    };
+}
+
+// Tasks completed in under a minute were marked done rather than worked on
+const MIN_TRACKED_MS = 60 * 1000;
+
+export function getEstimateAccuracy(quests: QuestSpec[]): EstimateAccuracy | undefined {
+    const samples: EstimateSample[] = quests.flatMap(quest => quest.tasks
+        .filter(task => task.status === 'completed' && task.estimateHours && (task.activeMs || 0) >= MIN_TRACKED_MS)
+        .map(task => ({
+            questId: quest.id,
+            taskId: task.id,
+            title: task.title,
+            estimateHours: task.estimateHours!,
+            actualHours: task.activeMs! / 3600000
+        })));
+    if (samples.length === 0) return undefined;
+
+    const ratios = samples.map(sample => sample.actualHours / sample.estimateHours).sort((a, b) => a - b);
+    const middle = Math.floor(ratios.length / 2);
+    return {
+        samples,
+        medianRatio: ratios.length % 2 === 1 ? ratios[middle] : (ratios[middle - 1] + ratios[middle]) / 2,
+        withinRangeShare: ratios.filter(ratio => ratio >= 0.75 && ratio <= 1.25).length / ratios.length,
+        estimatedHours: samples.reduce((sum, sample) => sum + sample.estimateHours, 0),
+        actualHours: samples.reduce((sum, sample) => sum + sample.actualHours, 0)
+    };
+}
+
+// Every word of the query must appear in the title, description or a requirement
+export function matchesQuery(quest: QuestSpec, query: string): boolean {
+    const haystack = [quest.title, quest.description, ...quest.requirements].join('\n').toLowerCase();
+    return query.toLowerCase().split(/\s+/).filter(Boolean).every(word => haystack.includes(word));
+}
+
+export function formatDuration(ms: number): string {
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 60) return `${minutes}m`;
+    const hours = minutes / 60;
+    if (hours < 48) return `${hours.toFixed(1)}h`;
+    return `${(hours / 24).toFixed(1)}d`;
+}
+
+function startOfWeek(date: Date): Date {
+    const daysSinceMonday = (date.getDay() + 6) % 7;
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() - daysSinceMonday);
+}
\ No newline at end of file
@@ -0,0 +1,303 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuestSpec } from './QuestManager';
+import { parseQuest, serializeQuest } from './QuestFile';
+import { QUEST_SCHEMA_VERSION, StoredQuests, deserializeQuestRecord, migrateStoredQuests, serializeQuestRecord } from './QuestSchema';
+
+export type QuestLocation = 'workspace' | 'global';
+
+// A stored entry that failed validation, kept verbatim so it can be recovered by hand
+export interface QuarantinedQuest {
+    raw: unknown;
+    error: string;
+    quarantinedAt: string;
+}
+
+const GLOBAL_QUESTS_KEY = 'qoder.activeQuests';
+const QUARANTINE_KEY = 'qoder.quarantinedQuests';
+const GLOBAL_REVIEWED_KEY = 'qoder.globalQuestsReviewed'; // In workspaceState
+const QUESTS_FOLDER = path.join('.qoder', 'quests');
+
+/**
+ * Persists quests. With a workspace open each quest is a Markdown file
+ * under .qoder/quests so it can be committed and reviewed; quests created
+ * without a workspace stay in globalState, and can be moved to a folder
+ * once it is open. onDidChange fires when quest files are edited,
+ * added or removed outside Qoder, e.g. by a git checkout.
+ */
+export class QuestStore implements vscode.Disposable {
+    private locations: Map<string, QuestLocation> = new Map();
+    private questFiles: Map<string, string> = new Map(); // Quest id -> file path
+    private fileContents: Map<string, string> = new Map(); // Last content read or written, to ignore our own writes
+    private globalReadOnly = false; // Set when globalState holds quests from a newer schema
+    private onDidChangeEmitter = new vscode.EventEmitter<void>();
+    private disposables: vscode.Disposable[] = [];
+
+    readonly onDidChange = this.onDidChangeEmitter.event;
+
+    constructor(private context: vscode.ExtensionContext) {
+        this.disposables.push(this.onDidChangeEmitter);
+
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (workspaceFolder) {
+            const watcher = vscode.workspace.createFileSystemWatcher(
+                new vscode.RelativePattern(workspaceFolder, '.qoder/quests/*.md')
+            );
+            watcher.onDidCreate(uri => this.handleFileEvent(uri));
+            watcher.onDidChange(uri => this.handleFileEvent(uri));
+            watcher.onDidDelete(uri => this.handleFileEvent(uri));
+            this.disposables.push(watcher);
+        }
+    }
+
+    // Workspace files win over globalState entries with the same id
+    load(): QuestSpec[] {
+        const quests = new Map<string, QuestSpec>();
+        this.locations.clear();
+        this.questFiles.clear();
+        this.fileContents.clear();
+
+        for (const quest of this.loadGlobal()) {
+            quests.set(quest.id, quest);
+            this.locations.set(quest.id, 'global');
+        }
+
+        const folder = this.getQuestsFolder();
+        if (folder && fs.existsSync(folder)) {
+            for (const fileName of fs.readdirSync(folder).filter(name => name.endsWith('.md'))) {
+                const filePath = path.join(folder, fileName);
+                try {
+                    const content = fs.readFileSync(filePath, 'utf-8');
+                    this.fileContents.set(filePath, content);
+
+                    const quest = parseQuest(content, path.basename(fileName, '.md'));
+                    if (this.questFiles.has(quest.id)) {
+                        console.warn(`Quest id ${quest.id} is used by more than one file; ignoring ${fileName}`);
+                        continue;
+                    }
+                    quests.set(quest.id, quest);
+                    this.locations.set(quest.id, 'workspace');
+                    this.questFiles.set(quest.id, filePath);
+                } catch (error) {
+                    // The file is left untouched so nothing is lost; it is picked up again once fixed
+                    vscode.window.showWarningMessage(`Skipped quest file ${fileName}: ${error instanceof Error ? error.message : error}`);
+                }
+            }
+        }
+
+        return Array.from(quests.values());
+    }
+
+    async save(quests: QuestSpec[]): Promise<void> {
+        const folder = this.getQuestsFolder();
+        const globalQuests: QuestSpec[] = [];
+        const ids = new Set(quests.map(quest => quest.id));
+
+        for (const quest of quests) {
+            if (!this.locations.has(quest.id)) {
+                this.locations.set(quest.id, folder ? 'workspace' : 'global');
+            }
+
+            if (this.locations.get(quest.id) === 'global' || !folder) {
+                globalQuests.push(quest);
+                continue;
+            }
+
+            const filePath = this.questFiles.get(quest.id) || path.join(folder, `${quest.id}.md`);
+            const content = serializeQuest(quest);
+            try {
+                if (this.fileContents.get(filePath) !== content) {
+                    fs.mkdirSync(folder, { recursive: true });
+                    fs.writeFileSync(filePath, content, 'utf-8');
+                    this.fileContents.set(filePath, content);
+                }
+                this.questFiles.set(quest.id, filePath);
+            } catch (error) {
+                vscode.window.showErrorMessage(`Failed to save quest "${quest.title}": ${error}`);
+            }
+        }
+
+        // Files of quests that were deleted; a file that failed to save is kept
+        for (const [id, filePath] of this.questFiles) {
+            if (ids.has(id)) continue;
+
+            this.questFiles.delete(id);
+            this.locations.delete(id);
+            this.fileContents.delete(filePath);
+            try {
+                if (fs.existsSync(filePath)) {
+                    fs.unlinkSync(filePath);
+                }
+            } catch (error) {
+                console.warn(`Failed to delete quest file ${filePath}:`, error);
+            }
+        }
+
+        if (this.globalReadOnly) {
+            console.warn('Not saving global quests: they were stored by a newer version of Qoder');
+            return;
+        }
+        await this.writeGlobal(globalQuests);
+    }
+
+    /**
+     * Ids of the quests in globalState that could move to the open folder.
+     * Empty without a folder, and once the user has gone through them for
+     * this folder: globalState is shared by every project, so only the
+     * user knows which quests belong here.
+     */
+    getMovableGlobalQuests(): string[] {
+        if (!this.getQuestsFolder() || this.globalReadOnly || this.context.workspaceState.get<boolean>(GLOBAL_REVIEWED_KEY)) return [];
+        return [...this.locations].filter(([, location]) => location === 'global').map(([id]) => id);
+    }
+
+    // Stops offering this folder the quests in globalState
+    markGlobalQuestsReviewed(): void {
+        this.context.workspaceState.update(GLOBAL_REVIEWED_KEY, true);
+    }
+
+    // The quests and their revision logs move to the open folder; the files are written on the next save
+    moveToWorkspace(questIds: string[]): void {
+        if (!this.getQuestsFolder()) return;
+
+        for (const id of questIds) {
+            if (this.locations.get(id) !== 'global') continue;
+
+            const globalHistory = this.getHistoryFolder(id);
+            this.locations.set(id, 'workspace');
+            this.moveFile(path.join(globalHistory, `${id}.jsonl`), path.join(this.getHistoryFolder(id), `${id}.jsonl`));
+        }
+    }
+
+    getLocation(questId: string): QuestLocation | undefined {
+        return this.locations.get(questId);
+    }
+
+    getFilePath(questId: string): string | undefined {
+        return this.questFiles.get(questId);
+    }
+
+    // Revision logs sit next to the quest so they are shared along with it
+    getHistoryFolder(questId: string): string {
+        const folder = this.getQuestsFolder();
+        const location = this.locations.get(questId) || (folder ? 'workspace' : 'global');
+        return location === 'workspace' && folder
+            ? path.join(folder, 'history')
+            : path.join(this.context.globalStorageUri.fsPath, 'quest-history');
+    }
+
+    private getQuarantinedQuests(): QuarantinedQuest[] {
+        return this.context.globalState.get<QuarantinedQuest[]>(QUARANTINE_KEY, []);
+    }
+
+    /**
+     * Reads the quests kept in globalState, migrating older schemas. Each
+     * entry is validated on its own: one that fails is moved to quarantine
+     * instead of taking every other quest down with it.
+     */
+    private loadGlobal(): QuestSpec[] {
+        const text = this.context.globalState.get<string>(GLOBAL_QUESTS_KEY);
+        if (!text) return [];
+
+        let entries: unknown[];
+        let version: number;
+        try {
+            const data = JSON.parse(text);
+            // Version 1 was the bare quest map, without an envelope
+            const isEnvelope = typeof data?.schemaVersion === 'number' && Array.isArray(data.quests);
+            version = isEnvelope ? data.schemaVersion : 1;
+            if (version > QUEST_SCHEMA_VERSION) {
+                this.globalReadOnly = true;
+                vscode.window.showWarningMessage(`Some quests were saved by a newer version of Qoder. Update Qoder to see and edit them.`);
+                return [];
+            }
+            entries = migrateStoredQuests(data, version).quests;
+        } catch (error) {
+            this.quarantine([{
+                raw: text,
+                error: error instanceof Error ? error.message : String(error),
+                quarantinedAt: new Date().toISOString()
+            }]);
+            this.writeGlobal([]);
+            return [];
+        }
+
+        const quests: QuestSpec[] = [];
+        const rejected: QuarantinedQuest[] = [];
+        for (const entry of entries) {
+            try {
+                quests.push(deserializeQuestRecord(entry));
+            } catch (error) {
+                rejected.push({
+                    raw: entry,
+                    error: error instanceof Error ? error.message : String(error),
+                    quarantinedAt: new Date().toISOString()
+                });
+            }
+        }
+        if (rejected.length > 0) {
+            this.quarantine(rejected);
+        }
+        // Persist the migration and drop quarantined entries so they are not reported again
+        if (rejected.length > 0 || version < QUEST_SCHEMA_VERSION) {
+            this.writeGlobal(quests);
+        }
+        return quests;
+    }
+
+    private async writeGlobal(quests: QuestSpec[]): Promise<void> {
+        const stored: StoredQuests = {
+            schemaVersion: QUEST_SCHEMA_VERSION,
+            quests: quests.map(serializeQuestRecord)
+        };
+        await this.context.globalState.update(GLOBAL_QUESTS_KEY, JSON.stringify(stored));
+    }
+
+    private quarantine(entries: QuarantinedQuest[]): void {
+        for (const entry of entries) {
+            console.error('Quarantined stored quest:', entry.error);
+        }
+        this.context.globalState.update(QUARANTINE_KEY, [...this.getQuarantinedQuests(), ...entries]);
+
+        const message = entries.length === 1
+            ? `A stored quest could not be read and was set aside: ${entries[0].error}`
+            : `${entries.length} stored quests could not be read and were set aside`;
+        vscode.window.showWarningMessage(message, 'Show Details').then(async choice => {
+            if (choice !== 'Show Details') return;
+            const document = await vscode.workspace.openTextDocument({
+                language: 'json',
+                content: JSON.stringify(this.getQuarantinedQuests(), null, 2)
+            });
+            await vscode.window.showTextDocument(document);
+        });
+    }
+
+    private getQuestsFolder(): string | null {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? path.join(workspaceFolder.uri.fsPath, QUESTS_FOLDER) : null;
+    }
+
+    // Leaves both files alone when the target already exists
+    private moveFile(from: string, to: string): void {
+        if (!fs.existsSync(from) || fs.existsSync(to)) return;
+        try {
+            fs.mkdirSync(path.dirname(to), { recursive: true });
+            fs.copyFileSync(from, to);
+            fs.unlinkSync(from);
+        } catch (error) {
+            console.warn(`Failed to move ${from} to ${to}:`, error);
+        }
+    }
+
+    private handleFileEvent(uri: vscode.Uri): void {
+        const content = fs.existsSync(uri.fsPath) ? fs.readFileSync(uri.fsPath, 'utf-8') : undefined;
+        if (content === this.fileContents.get(uri.fsPath)) return;
+
+        this.onDidChangeEmitter.fire();
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
\ No newline at end of file
@@ -0,0 +1,132 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { QuestSpec, QuestTask } from './QuestManager';
+import { parseQuestTemplate, serializeQuestTemplate } from './QuestFile';
+
+export type TemplateTask = Pick<QuestTask, 'id' | 'title' | 'description' | 'filePaths' | 'dependencies' | 'verifyCommands'>;
+
+export interface TemplateParameter {
+    name: string; // Referenced as {{name}} anywhere in the template
+    prompt: string;
+    default: string;
+}
+
+export interface QuestTemplate {
+    id: string; // File name without extension
+    name: string;
+    description: string;
+    parameters: TemplateParameter[];
+    requirements: string[];
+    tasks: TemplateTask[];
+    guidance: string; // Extra instructions for the model filling in the details
+    filePath: string;
+}
+
+const TEMPLATES_FOLDER = path.join('.qoder', 'templates');
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/**
+ * Reusable quest skeletons stored as Markdown files under
+ * .qoder/templates, so a team can share them through the repository.
+ * Requirements and tasks come from the template; the model only fills in
+ * project-specific details.
+ */
+export class QuestTemplateLibrary {
+    list(): QuestTemplate[] {
+        const folder = this.getFolder();
+        if (!folder || !fs.existsSync(folder)) return [];
+
+        const templates: QuestTemplate[] = [];
+        for (const fileName of fs.readdirSync(folder).filter(name => name.endsWith('.md')).sort()) {
+            const filePath = path.join(folder, fileName);
+            try {
+                const template = parseQuestTemplate(fs.readFileSync(filePath, 'utf-8'), path.basename(fileName, '.md'));
+                templates.push({ ...template, filePath });
+            } catch (error) {
+                vscode.window.showWarningMessage(`Skipped quest template ${fileName}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+        return templates;
+    }
+
+    // Resolves to undefined when the user cancels one of the prompts
+    async askParameters(template: QuestTemplate): Promise<Record<string, string> | undefined> {
+        const values: Record<string, string> = {};
+        for (const [index, parameter] of template.parameters.entries()) {
+            const value = await vscode.window.showInputBox({
+                title: `${template.name} (${index + 1}/${template.parameters.length})`,
+                prompt: parameter.prompt || parameter.name,
+                value: parameter.default,
+                ignoreFocusOut: true,
+                validateInput: text => text.trim() ? null : `${parameter.name} is required`
+            });
+            if (value === undefined) return undefined;
+            values[parameter.name] = value.trim();
+        }
+        return values;
+    }
+
+    // Unknown placeholders are left as they are so the model can still see them
+    apply(template: QuestTemplate, values: Record<string, string>): QuestTemplate {
+        const fill = (text: string) => text.replace(PLACEHOLDER, (match, name: string) => values[name] ?? match);
+        return {
+            ...template,
+            name: fill(template.name),
+            description: fill(template.description),
+            requirements: template.requirements.map(fill),
+            tasks: template.tasks.map(task => ({
+                ...task,
+                title: fill(task.title),
+                description: fill(task.description),
+                filePaths: task.filePaths.map(fill),
+                verifyCommands: task.verifyCommands?.map(fill)
+            })),
+            guidance: fill(template.guidance)
+        };
+    }
+
+    /**
+     * Writes a quest's requirements and tasks as a new template. The file
+     * has no parameters yet; {{name}} placeholders are added by hand.
+     */
+    save(quest: QuestSpec, name: string): string {
+        const folder = this.getFolder();
+        if (!folder) {
+            throw new Error('Open a folder to save quest templates');
+        }
+
+        const baseName = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'template';
+        let filePath = path.join(folder, `${baseName}.md`);
+        for (let suffix = 2; fs.existsSync(filePath); suffix++) {
+            filePath = path.join(folder, `${baseName}-${suffix}.md`);
+        }
+
+        const template: QuestTemplate = {
+            id: path.basename(filePath, '.md'),
+            name,
+            description: quest.title,
+            parameters: [],
+            requirements: [...quest.requirements],
+            tasks: quest.tasks.map(task => ({
+                id: task.id,
+                title: task.title,
+                description: task.description,
+                filePaths: [...task.filePaths],
+                dependencies: [...task.dependencies],
+                verifyCommands: [...task.verifyCommands || []]
+            })),
+            guidance: quest.description,
+            filePath
+        };
+
+        fs.mkdirSync(folder, { recursive: true });
+        fs.writeFileSync(filePath, serializeQuestTemplate(template), 'utf-8');
+        return filePath;
+    }
+
+    private getFolder(): string | null {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        return workspaceFolder ? path.join(workspaceFolder.uri.fsPath, TEMPLATES_FOLDER) : null;
+    }
+}
\ No newline at end of file
@@ -99,7 +99,7 @@ export class RepoWikiGenerator {
         }
     }
 
-    private async analyzeProject(projectPath: string): Promise<ProjectStructure> {
+    async analyzeProject(projectPath: string): Promise<ProjectStructure> {
         const structure: ProjectStructure = {
             name: path.basename(projectPath),
             rootPath: projectPath,
@@ -365,7 +365,7 @@ export class RepoWikiGenerator {
         return languageMap[ext];
     }
 
-    private async getPackageInfo(projectPath: string): Promise<ProjectStructure['packageInfo']> {
+    async getPackageInfo(projectPath: string): Promise<ProjectStructure['packageInfo']> {
         const packageJsonPath = path.join(projectPath, 'package.json');
         
         if (fs.existsSync(packageJsonPath)) {
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import { QuestSpec, QuestTask } from './QuestManager';
+
+/**
+ * Measures how long tasks are actually worked on: the time the executor
+ * spends on each while the window has focus. Tasks left in progress by a
+ * pause or an error are not timed. Elapsed time is added to the task's
+ * activeMs on every sync, so it is saved along with the quests, and when
+ * the window loses focus, which also persists it.
+ */
+export class TaskTimeTracker implements vscode.Disposable {
+    private started: Map<string, number> = new Map(); // `${questId}/${taskId}` -> start of the current stretch
+    private focused = vscode.window.state.focused;
+    private disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private getQuests: () => QuestSpec[],
+        private isWorkingOn: (questId: string, taskId: string) => boolean,
+        private persist: () => Promise<void>
+    ) {
+        this.disposables.push(vscode.window.onDidChangeWindowState(state => {
+            if (state.focused === this.focused) return;
+
+            this.focused = state.focused;
+            const running = this.started.size > 0;
+            this.sync();
+            if (!state.focused && running) {
+                this.persist().catch(error => console.warn('Failed to save tracked task time:', error));
+            }
+        }));
+    }
+
+    /**
+     * Adds the time since the last sync to every task that was being worked
+     * on and starts a new stretch for those still being worked on. Called
+     * before quests are saved, so status changes are timed to the save.
+     */
+    sync(): void {
+        const now = Date.now();
+        const next = new Map<string, number>();
+
+        for (const quest of this.getQuests()) {
+            for (const task of quest.tasks) {
+                const key = `${quest.id}/${task.id}`;
+                const since = this.started.get(key);
+                if (since !== undefined) {
+                    task.activeMs = (task.activeMs || 0) + (now - since);
+                }
+                if (task.status === 'in-progress' && this.isWorkingOn(quest.id, task.id) && this.focused) {
+                    next.set(key, now);
+                }
+            }
+        }
+        this.started = next;
+    }
+
+    // Saved time plus the stretch that is still running
+    getActiveMs(questId: string, task: QuestTask): number {
+        const since = this.started.get(`${questId}/${task.id}`);
+        return (task.activeMs || 0) + (since !== undefined ? Date.now() - since : 0);
+    }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
+}
\ No newline at end of file
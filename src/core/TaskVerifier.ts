@@ -0,0 +1,168 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { spawn, ChildProcess } from 'child_process';
+import { QuestTask } from './QuestManager';
+import { RepoWikiGenerator } from './RepoWikiGenerator';
+
+export interface CommandResult {
+    command: string;
+    exitCode: number | null; // null when the command could not start, timed out or was cancelled
+    output: string; // Tail of the combined stdout/stderr
+    durationMs: number;
+}
+
+export interface TaskVerification {
+    passed: boolean;
+    ranAt: Date;
+    results: Array<Pick<CommandResult, 'command' | 'exitCode'>>;
+}
+
+const TASK_TYPE = 'qoder-verify';
+const MAX_OUTPUT_CHARS = 8000;
+
+// Scripts that never exit on their own are no use as a check
+const LONG_RUNNING_SCRIPT = /(^|:)(start|dev|serve)($|:)|watch/;
+
+/**
+ * Runs a task's verification commands after its changes are applied. Each
+ * command runs as a VS Code task in its own terminal so the user can follow
+ * along, while exit code and output are captured for the executor.
+ */
+export class TaskVerifier {
+    constructor(private wikiGenerator: RepoWikiGenerator) {}
+
+    // Commands for the workspace's package.json scripts, for the model to choose from
+    async getAvailableCommands(root: string): Promise<string[]> {
+        const packageInfo = await this.wikiGenerator.getPackageInfo(root);
+        const scripts = Object.keys(packageInfo?.scripts || {}).filter(name => !LONG_RUNNING_SCRIPT.test(name));
+        const packageManager = this.detectPackageManager(root);
+
+        return scripts.map(name => name === 'test' ? `${packageManager} test` : `${packageManager} run ${name}`);
+    }
+
+    async verify(task: QuestTask, root: string, signal: AbortSignal): Promise<{ verification: TaskVerification; failures: CommandResult[] }> {
+        const results: CommandResult[] = [];
+        for (const command of task.verifyCommands || []) {
+            if (signal.aborted) break;
+            results.push(await this.runCommand(task, command, root, signal));
+        }
+
+        const failures = results.filter(result => result.exitCode !== 0);
+        return {
+            verification: {
+                passed: !signal.aborted && failures.length === 0,
+                ranAt: new Date(),
+                results: results.map(({ command, exitCode }) => ({ command, exitCode }))
+            },
+            failures
+        };
+    }
+
+    private runCommand(task: QuestTask, command: string, root: string, signal: AbortSignal): Promise<CommandResult> {
+        const timeoutMs = vscode.workspace.getConfiguration('qoder').get<number>('quest.verification.timeoutSeconds', 600) * 1000;
+        const startedAt = Date.now();
+
+        return new Promise(resolve => {
+            let output = '';
+            let finished = false;
+
+            const execution = new vscode.CustomExecution(async () => {
+                const writeEmitter = new vscode.EventEmitter<string>();
+                const closeEmitter = new vscode.EventEmitter<number>();
+                let child: ChildProcess | undefined;
+                let timer: NodeJS.Timeout | undefined;
+
+                const finish = (exitCode: number | null, note?: string) => {
+                    if (finished) return;
+                    finished = true;
+                    clearTimeout(timer);
+                    signal.removeEventListener('abort', onAbort);
+
+                    if (note) output += `\n${note}\n`;
+                    writeEmitter.fire(`\r\n${note ? note + ' ' : ''}[exit code ${exitCode ?? 'none'}]\r\n`);
+                    closeEmitter.fire(exitCode ?? 1);
+                    resolve({ command, exitCode, output: output.slice(-MAX_OUTPUT_CHARS), durationMs: Date.now() - startedAt });
+                };
+                const onAbort = () => {
+                    this.kill(child);
+                    finish(null, 'Cancelled');
+                };
+
+                const pty: vscode.Pseudoterminal = {
+                    onDidWrite: writeEmitter.event,
+                    onDidClose: closeEmitter.event,
+                    open: () => {
+                        writeEmitter.fire(`$ ${command}\r\n`);
+                        child = spawn(command, {
+                            cwd: root,
+                            shell: true,
+                            detached: process.platform !== 'win32'
+                        });
+
+                        const onData = (data: Buffer) => {
+                            const text = data.toString();
+                            output = (output + text).slice(-MAX_OUTPUT_CHARS * 2);
+                            writeEmitter.fire(text.replace(/\r?\n/g, '\r\n'));
+                        };
+                        child.stdout?.on('data', onData);
+                        child.stderr?.on('data', onData);
+                        child.on('error', error => finish(null, `Failed to start: ${error.message}`));
+                        child.on('close', code => finish(code));
+
+                        timer = setTimeout(() => {
+                            this.kill(child);
+                            finish(null, `Timed out after ${timeoutMs / 1000}s`);
+                        }, timeoutMs);
+                        signal.addEventListener('abort', onAbort, { once: true });
+                    },
+                    // The user closed the terminal
+                    close: () => {
+                        this.kill(child);
+                        finish(null, 'Terminal closed');
+                    }
+                };
+                return pty;
+            });
+
+            const vscodeTask = new vscode.Task(
+                { type: TASK_TYPE, command },
+                vscode.TaskScope.Workspace,
+                `${task.title}: ${command}`,
+                'Qoder',
+                execution
+            );
+            vscodeTask.presentationOptions = {
+                reveal: vscode.TaskRevealKind.Silent,
+                panel: vscode.TaskPanelKind.Dedicated,
+                clear: true
+            };
+
+            vscode.tasks.executeTask(vscodeTask).then(undefined, error => {
+                if (finished) return;
+                finished = true;
+                resolve({ command, exitCode: null, output: `Failed to start task: ${error}`, durationMs: 0 });
+            });
+        });
+    }
+
+    // Shell commands spawn children of their own, so the whole process group is stopped
+    private kill(child: ChildProcess | undefined): void {
+        if (!child?.pid || child.exitCode !== null) return;
+        try {
+            if (process.platform === 'win32') {
+                child.kill();
+            } else {
+                process.kill(-child.pid, 'SIGTERM');
+            }
+        } catch (error) {
+            console.warn('Failed to stop verification command:', error);
+        }
+    }
+
+    private detectPackageManager(root: string): string {
+        if (fs.existsSync(path.join(root, 'pnpm-lock.yaml'))) return 'pnpm';
+        if (fs.existsSync(path.join(root, 'yarn.lock'))) return 'yarn';
+        return 'npm';
+    }
+}
\ No newline at end of file
@@ -0,0 +1,373 @@
+import * as vscode from 'vscode';
+import { MemorySystem } from './MemorySystem';
+import { LLMFeature } from '../llm/LLMProvider';
+import { UsageRecord, UsageTracker } from '../llm/LLMService';
+
+export interface UsageEntry extends UsageRecord {
+    id: string;
+    cost: number;
+    timestamp: Date;
+}
+
+export interface UsageSummary {
+    calls: number;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number;
+}
+
+export interface FeatureBudget {
+    daily?: number;
+    monthly?: number;
+}
+
+interface ModelPricing {
+    prompt: number; // USD per 1K prompt tokens
+    completion: number; // USD per 1K completion tokens
+}
+
+// Longest matching prefix wins; only the hosted OpenAI API is billed
+const DEFAULT_PRICING: Record<string, ModelPricing> = {
+    'gpt-4o-mini': { prompt: 0.00015, completion: 0.0006 },
+    'gpt-4o': { prompt: 0.0025, completion: 0.01 },
+    'gpt-4-turbo': { prompt: 0.01, completion: 0.03 },
+    'gpt-4-32k': { prompt: 0.06, completion: 0.12 },
+    'gpt-4': { prompt: 0.03, completion: 0.06 },
+    'gpt-3.5-turbo': { prompt: 0.0005, completion: 0.0015 }
+};
+
+const FEATURE_LABELS: Record<LLMFeature, string> = {
+    quest: 'Quest',
+    inlineChat: 'Inline Chat',
+    searchEnhancement: 'Search Enhancement'
+};
+
+/**
+ * Records every model completion in the memory database and enforces the
+ * optional per-feature spend limits from qoder.ai.budgets.
+ */
+export class UsageLedger implements UsageTracker {
+    private reportPanel: vscode.WebviewPanel | null = null;
+
+    constructor(private memorySystem: MemorySystem) {}
+
+    async record(usage: UsageRecord): Promise<void> {
+        const database = this.memorySystem.getDatabase();
+        if (!database) return;
+
+        const entry: UsageEntry = {
+            ...usage,
+            id: this.generateId(),
+            cost: this.estimateCost(usage),
+            timestamp: new Date()
+        };
+
+        return new Promise((resolve, reject) => {
+            const sql = `INSERT INTO ai_usage
+                (id, feature, operation, provider, model, prompt_tokens, completion_tokens, tokens_estimated, latency_ms, cost, timestamp)
+                VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`;
+
+            database.run(sql, [
+                entry.id,
+                entry.feature,
+                entry.operation,
+                entry.provider,
+                entry.model,
+                entry.promptTokens,
+                entry.completionTokens,
+                entry.tokensEstimated ? 1 : 0,
+                entry.latencyMs,
+                entry.cost,
+                entry.timestamp.toISOString()
+            ], (err) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                resolve();
+                this.updateReportPanelContent().catch(error => console.warn('Failed to refresh the usage report:', error));
+            });
+        });
+    }
+
+    async checkBudget(feature: LLMFeature): Promise<void> {
+        const budgets = vscode.workspace.getConfiguration('qoder').get<Record<string, FeatureBudget>>('ai.budgets', {});
+        const budget = budgets[feature];
+        if (!budget) return;
+
+        const now = new Date();
+        const limits: Array<[string, number | undefined, Date]> = [
+            ['Daily', budget.daily, new Date(now.getFullYear(), now.getMonth(), now.getDate())],
+            ['Monthly', budget.monthly, new Date(now.getFullYear(), now.getMonth(), 1)]
+        ];
+
+        for (const [period, limit, since] of limits) {
+            if (limit === undefined || limit === null) continue;
+
+            const spent = (await this.getSummary({ feature, since })).cost;
+            if (spent >= limit) {
+                throw new Error(
+                    `${period} AI budget for ${FEATURE_LABELS[feature]} exceeded ` +
+                    `($${spent.toFixed(2)} of $${limit.toFixed(2)}). Adjust qoder.ai.budgets to continue.`
+                );
+            }
+        }
+    }
+
+    async getSummary(filter: { feature?: LLMFeature; since?: Date } = {}): Promise<UsageSummary> {
+        const rows = await this.query(
+            `SELECT COUNT(*) AS calls, SUM(prompt_tokens) AS prompt_tokens,
+                SUM(completion_tokens) AS completion_tokens, SUM(cost) AS cost
+             FROM ai_usage WHERE 1=1` + this.buildFilter(filter),
+            this.buildParams(filter)
+        );
+
+        const row = rows[0] || {};
+        return {
+            calls: row.calls || 0,
+            promptTokens: row.prompt_tokens || 0,
+            completionTokens: row.completion_tokens || 0,
+            cost: row.cost || 0
+        };
+    }
+
+    async getRecentEntries(limit: number): Promise<UsageEntry[]> {
+        const rows = await this.query('SELECT * FROM ai_usage ORDER BY timestamp DESC LIMIT ?', [limit]);
+        return rows.map(row => ({
+            id: row.id,
+            feature: row.feature,
+            operation: row.operation,
+            provider: row.provider,
+            model: row.model,
+            promptTokens: row.prompt_tokens,
+            completionTokens: row.completion_tokens,
+            tokensEstimated: row.tokens_estimated === 1,
+            latencyMs: row.latency_ms,
+            cost: row.cost,
+            timestamp: new Date(row.timestamp)
+        }));
+    }
+
+    async showUsageReport(): Promise<void> {
+        if (this.reportPanel) {
+            this.reportPanel.reveal();
+            return;
+        }
+
+        this.reportPanel = vscode.window.createWebviewPanel(
+            'qoder-usage-report',
+            '💰 Qoder AI Usage',
+            vscode.ViewColumn.Beside,
+            {
+                enableScripts: false,
+                retainContextWhenHidden: true
+            }
+        );
+
+        this.reportPanel.onDidDispose(() => {
+            this.reportPanel = null;
+        });
+
+        await this.updateReportPanelContent();
+    }
+
+    private async updateReportPanelContent(): Promise<void> {
+        if (!this.reportPanel) return;
+
+        const now = new Date();
+        const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+        const startOfMonth = new Date(now.getFullYear(), now.getMonth(), 1);
+        const budgets = vscode.workspace.getConfiguration('qoder').get<Record<string, FeatureBudget>>('ai.budgets', {});
+
+        const features = Object.keys(FEATURE_LABELS) as LLMFeature[];
+        const rows = await Promise.all(features.map(async feature => ({
+            feature,
+            today: await this.getSummary({ feature, since: startOfDay }),
+            month: await this.getSummary({ feature, since: startOfMonth }),
+            total: await this.getSummary({ feature }),
+            budget: budgets[feature]
+        })));
+        const recent = await this.getRecentEntries(25);
+
+        // The panel may have been closed while the queries ran
+        const panel = this.reportPanel;
+        if (!panel) return;
+        panel.webview.html = this.getUsageReportHtml(rows, recent);
+    }
+
+    private getUsageReportHtml(
+        rows: Array<{ feature: LLMFeature; today: UsageSummary; month: UsageSummary; total: UsageSummary; budget?: FeatureBudget }>,
+        recent: UsageEntry[]
+    ): string {
+        const formatCost = (cost: number) => `$${cost.toFixed(4)}`;
+        const formatLimit = (spent: number, limit?: number) => limit === undefined
+            ? formatCost(spent)
+            : `${formatCost(spent)} / $${limit.toFixed(2)} ${spent >= limit ? '⛔' : ''}`;
+
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Qoder AI Usage</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+        .header {
+            text-align: center;
+            margin-bottom: 30px;
+            padding-bottom: 20px;
+            border-bottom: 2px solid var(--vscode-panel-border);
+        }
+        .title {
+            font-size: 24px;
+            font-weight: bold;
+            margin: 0 0 10px 0;
+            color: var(--vscode-textLink-foreground);
+        }
+        .subtitle {
+            font-size: 14px;
+            opacity: 0.8;
+            margin: 0;
+        }
+        .section {
+            margin: 30px 0;
+        }
+        .section-title {
+            font-size: 18px;
+            font-weight: 600;
+            color: var(--vscode-textLink-foreground);
+            margin: 0 0 15px 0;
+            border-left: 3px solid var(--vscode-button-background);
+            padding-left: 10px;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+            font-size: 13px;
+        }
+        th, td {
+            text-align: left;
+            padding: 6px 10px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        th {
+            opacity: 0.8;
+            font-weight: 600;
+        }
+        .estimated {
+            opacity: 0.6;
+            font-style: italic;
+        }
+        .empty-state {
+            text-align: center;
+            padding: 40px 20px;
+            opacity: 0.6;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <h1 class="title">💰 AI Usage &amp; Cost</h1>
+        <p class="subtitle">Estimated from list prices; self-hosted and mock providers are free</p>
+    </div>
+
+    <div class="section">
+        <h2 class="section-title">📊 By Feature</h2>
+        <table>
+            <tr><th>Feature</th><th>Today</th><th>This Month</th><th>All Time</th><th>Calls</th><th>Tokens</th></tr>
+            ${rows.map(row => `
+                <tr>
+                    <td>${FEATURE_LABELS[row.feature]}</td>
+                    <td>${formatLimit(row.today.cost, row.budget?.daily)}</td>
+                    <td>${formatLimit(row.month.cost, row.budget?.monthly)}</td>
+                    <td>${formatCost(row.total.cost)}</td>
+                    <td>${row.total.calls}</td>
+                    <td>${(row.total.promptTokens + row.total.completionTokens).toLocaleString()}</td>
+                </tr>
+            `).join('')}
+        </table>
+    </div>
+
+    <div class="section">
+        <h2 class="section-title">⏰ Recent Calls</h2>
+        ${recent.length > 0 ? `
+            <table>
+                <tr><th>Time</th><th>Feature</th><th>Model</th><th>Prompt</th><th>Completion</th><th>Latency</th><th>Cost</th></tr>
+                ${recent.map(entry => `
+                    <tr class="${entry.tokensEstimated ? 'estimated' : ''}">
+                        <td>${entry.timestamp.toLocaleString()}</td>
+                        <td>${FEATURE_LABELS[entry.feature] || entry.feature}</td>
+                        <td>${entry.provider}: ${entry.model}</td>
+                        <td>${entry.promptTokens}</td>
+                        <td>${entry.completionTokens}</td>
+                        <td>${entry.latencyMs}ms</td>
+                        <td>${formatCost(entry.cost)}</td>
+                    </tr>
+                `).join('')}
+            </table>
+        ` : '<div class="empty-state">No AI calls recorded yet.</div>'}
+    </div>
+</body>
+</html>
+`;
+    }
+
+    private estimateCost(usage: UsageRecord): number {
+        if (usage.provider !== 'openai') return 0;
+
+        const overrides = vscode.workspace.getConfiguration('qoder').get<Record<string, ModelPricing>>('ai.pricing', {});
+        const pricing = { ...DEFAULT_PRICING, ...overrides };
+        const match = Object.keys(pricing)
+            .filter(prefix => usage.model.startsWith(prefix))
+            .sort((a, b) => b.length - a.length)[0];
+        if (!match) return 0;
+
+        return (usage.promptTokens / 1000) * pricing[match].prompt +
+            (usage.completionTokens / 1000) * pricing[match].completion;
+    }
+
+    private buildFilter(filter: { feature?: LLMFeature; since?: Date }): string {
+        let sql = '';
+        if (filter.feature) sql += ' AND feature = ?';
+        if (filter.since) sql += ' AND timestamp >= ?';
+        return sql;
+    }
+
+    private buildParams(filter: { feature?: LLMFeature; since?: Date }): any[] {
+        const params: any[] = [];
+        if (filter.feature) params.push(filter.feature);
+        if (filter.since) params.push(filter.since.toISOString());
+        return params;
+    }
+
+    private query(sql: string, params: any[]): Promise<any[]> {
+        const database = this.memorySystem.getDatabase();
+        if (!database) return Promise.resolve([]);
+
+        return new Promise((resolve, reject) => {
+            database.all(sql, params, (err, rows: any[]) => {
+                if (err) {
+                    reject(err);
+                    return;
+                }
+                resolve(rows);
+            });
+        });
+    }
+
+    private generateId(): string {
+        return 'usage_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+    }
+
+    dispose(): void {
+        this.reportPanel?.dispose();
+    }
+}
\ No newline at end of file
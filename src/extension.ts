@@ -4,27 +4,69 @@ import { MemorySystem } from './core/MemorySystem';
 import { RepoWikiGenerator } from './core/RepoWikiGenerator';
 import { ContextSearchEngine } from './core/ContextSearchEngine';
 import { InlineChatProvider } from './providers/InlineChatProvider';
-import { QuestViewProvider } from './providers/QuestViewProvider';
+import { QuestItem, QuestViewProvider } from './providers/QuestViewProvider';
+import { QuestDashboard } from './core/QuestDashboard';
 import { MemoryViewProvider } from './providers/MemoryViewProvider';
 import { DDSystemIntegration } from './integration/DDSystemIntegration';
+import { LLMService } from './llm/LLMService';
+import { ResponseCache } from './llm/ResponseCache';
+import { CachedFileWatcher } from './llm/CachedFileWatcher';
+import { UsageLedger } from './core/UsageLedger';
+import { KeyManager } from './core/KeyManager';
 
 let questManager: QuestManager;
+let questDashboard: QuestDashboard;
 let memorySystem: MemorySystem;
 let wikiGenerator: RepoWikiGenerator;
 let contextSearch: ContextSearchEngine;
 let inlineChatProvider: InlineChatProvider;
 let ddIntegration: DDSystemIntegration;
+let llmService: LLMService;
+let usageLedger: UsageLedger;
+let responseCache: ResponseCache;
+let keyManager: KeyManager;
 
 export function activate(context: vscode.ExtensionContext) {
     console.log('🚀 Qoder AI Development Agent is now active!');
 
+    // API keys live in secure storage; clients are rebuilt when one changes
+    keyManager = new KeyManager(context);
+    context.subscriptions.push(keyManager);
+
+    // Shared model access for quests, inline chat and search enhancement
+    llmService = new LLMService();
+    llmService.setApiKeySource(keyManager);
+    context.subscriptions.push(
+        keyManager.onDidChange(name => {
+            if (name === 'openai') {
+                llmService.reset();
+            }
+        })
+    );
+    context.subscriptions.push(
+        vscode.workspace.onDidChangeConfiguration(event => {
+            if (event.affectsConfiguration('qoder.ai') || event.affectsConfiguration('qoder.openai')) {
+                llmService.reset();
+            }
+        })
+    );
+
+    // Cached responses are dropped as soon as a file they were built from changes
+    responseCache = new ResponseCache(vscode.Uri.joinPath(context.globalStorageUri, 'ai-cache').fsPath);
+    llmService.setResponseCache(responseCache);
+    context.subscriptions.push(new CachedFileWatcher(responseCache));
+
     // Initialize core systems
-    questManager = new QuestManager(context);
-    memorySystem = new MemorySystem(context);
     wikiGenerator = new RepoWikiGenerator();
-    contextSearch = new ContextSearchEngine(context);
-    inlineChatProvider = new InlineChatProvider(memorySystem);
-    ddIntegration = new DDSystemIntegration();
+    ddIntegration = new DDSystemIntegration(keyManager);
+    questManager = new QuestManager(context, llmService, wikiGenerator, ddIntegration);
+    questDashboard = new QuestDashboard(questManager);
+    context.subscriptions.push(questDashboard);
+    memorySystem = new MemorySystem(context);
+    usageLedger = new UsageLedger(memorySystem);
+    llmService.setUsageTracker(usageLedger);
+    contextSearch = new ContextSearchEngine(context, llmService, keyManager);
+    inlineChatProvider = new InlineChatProvider(memorySystem, llmService);
 
     // Initialize view providers
     const questViewProvider = new QuestViewProvider(questManager);
@@ -32,6 +74,7 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Register tree data providers
     vscode.window.registerTreeDataProvider('qoder.questView', questViewProvider);
+    context.subscriptions.push(questViewProvider);
     vscode.window.registerTreeDataProvider('qoder.memoryView', memoryViewProvider);
 
     // Register commands
@@ -41,10 +84,14 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.commands.executeCommand('setContext', 'qoder.hasActiveQuests', true);
     vscode.commands.executeCommand('setContext', 'qoder.memoryEnabled', true);
 
-    // Initialize memory system and DD integration
+    // Initialize memory system and DD integration (which may import keys, so after the key manager).
+    // The quest provider check waits for both, since either can supply the API key.
     Promise.all([
         memorySystem.initialize(),
-        ddIntegration.initialize()
+        keyManager.initialize().then(() => ddIntegration.initialize()).then(ddResult => {
+            questManager.checkAIConfiguration();
+            return ddResult;
+        })
     ]).then(([memoryResult, ddResult]) => {
         console.log('🧠 Memory system initialized');
         if (ddResult) {
@@ -65,6 +112,155 @@ function registerCommands(context: vscode.ExtensionContext) {
         }
     });
 
+    // Run or resume an approved quest
+    const runQuestCommand = vscode.commands.registerCommand('qoder.runQuest', async (questId?: string) => {
+        try {
+            await questManager.runQuest(questId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to run quest: ${error}`);
+        }
+    });
+
+    // Roll back quest changes to a git checkpoint (tree context menu or palette)
+    const rollbackTaskCommand = vscode.commands.registerCommand('qoder.rollbackTask', async (item?: QuestItem) => {
+        try {
+            await questManager.rollbackTask(item?.questId, item?.taskId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to roll back task: ${error}`);
+        }
+    });
+
+    const rollbackQuestCommand = vscode.commands.registerCommand('qoder.rollbackQuest', async (item?: QuestItem) => {
+        try {
+            await questManager.rollbackQuest(item?.questId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to roll back quest: ${error}`);
+        }
+    });
+
+    const saveQuestAsTemplateCommand = vscode.commands.registerCommand('qoder.saveQuestAsTemplate', async (item?: QuestItem) => {
+        try {
+            await questManager.saveQuestAsTemplate(item?.questId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to save quest template: ${error}`);
+        }
+    });
+
+    const exportQuestCommand = vscode.commands.registerCommand('qoder.exportQuest', async (item?: QuestItem) => {
+        try {
+            await questManager.exportQuest(item?.questId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to export quest: ${error}`);
+        }
+    });
+
+    // Quest tree actions; clicking an item passes ids, context menus pass the item
+    const importQuestCommand = vscode.commands.registerCommand('qoder.importQuest', async () => {
+        try {
+            await questManager.importQuest();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to import quest: ${error}`);
+        }
+    });
+
+    const openQuestCommand = vscode.commands.registerCommand('qoder.openQuest', async (target?: string | QuestItem) => {
+        try {
+            await questManager.openQuest(typeof target === 'string' ? target : target?.questId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open quest: ${error}`);
+        }
+    });
+
+    const openTaskCommand = vscode.commands.registerCommand('qoder.openTask', async (questId: string, taskId: string) => {
+        try {
+            await questManager.openTask(questId, taskId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open task: ${error}`);
+        }
+    });
+
+    const startTaskCommand = vscode.commands.registerCommand('qoder.startTask', async (item?: QuestItem) => {
+        if (!item?.questId || !item.taskId) return;
+        try {
+            await questManager.startTask(item.questId, item.taskId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to start task: ${error}`);
+        }
+    });
+
+    const completeTaskCommand = vscode.commands.registerCommand('qoder.completeTask', async (item?: QuestItem) => {
+        if (!item?.questId || !item.taskId) return;
+        try {
+            await questManager.setTaskStatus(item.questId, item.taskId, 'completed');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to complete task: ${error}`);
+        }
+    });
+
+    const skipTaskCommand = vscode.commands.registerCommand('qoder.skipTask', async (item?: QuestItem) => {
+        if (!item?.questId || !item.taskId) return;
+        try {
+            await questManager.setTaskStatus(item.questId, item.taskId, 'skipped');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to skip task: ${error}`);
+        }
+    });
+
+    const resetTaskCommand = vscode.commands.registerCommand('qoder.resetTask', async (item?: QuestItem) => {
+        if (!item?.questId || !item.taskId) return;
+        try {
+            await questManager.setTaskStatus(item.questId, item.taskId, 'pending');
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to reset task: ${error}`);
+        }
+    });
+
+    const openTaskFilesCommand = vscode.commands.registerCommand('qoder.openTaskFiles', async (item?: QuestItem) => {
+        if (!item?.questId || !item.taskId) return;
+        try {
+            await questManager.openTaskFiles(item.questId, item.taskId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to open task files: ${error}`);
+        }
+    });
+
+    const archiveQuestCommand = vscode.commands.registerCommand('qoder.archiveQuest', async (item?: QuestItem) => {
+        try {
+            await questManager.archiveQuest(item?.questId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to archive quest: ${error}`);
+        }
+    });
+
+    const deleteQuestCommand = vscode.commands.registerCommand('qoder.deleteQuest', async (item?: QuestItem) => {
+        try {
+            await questManager.deleteQuest(item?.questId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to delete quest: ${error}`);
+        }
+    });
+
+    const browseQuestArchiveCommand = vscode.commands.registerCommand('qoder.browseQuestArchive', async () => {
+        try {
+            await questManager.browseArchive();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to browse quest archive: ${error}`);
+        }
+    });
+
+    const showQuestDashboardCommand = vscode.commands.registerCommand('qoder.showQuestDashboard', () => {
+        questDashboard.show();
+    });
+
+    // Dispatch a quest, or a single task from the tree, to cxmarathon
+    const handOffQuestCommand = vscode.commands.registerCommand('qoder.handOffQuest', async (item?: QuestItem) => {
+        try {
+            await questManager.handOffQuest(item?.questId, item?.taskId);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to hand off quest: ${error}`);
+        }
+    });
+
     // Inline Chat (Command + I)
     const inlineChatCommand = vscode.commands.registerCommand('qoder.inlineChat', async () => {
         try {
@@ -152,6 +348,73 @@ function registerCommands(context: vscode.ExtensionContext) {
         }
     });
 
+    // AI usage and cost report
+    const showUsageReportCommand = vscode.commands.registerCommand('qoder.showUsageReport', async () => {
+        try {
+            await usageLedger.showUsageReport();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to show usage report: ${error}`);
+        }
+    });
+
+    // API key management
+    const manageApiKeysCommand = vscode.commands.registerCommand('qoder.manageApiKeys', async () => {
+        try {
+            await keyManager.manageKeys();
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to manage API keys: ${error}`);
+        }
+    });
+
+    // AI response cache
+    const inspectCacheCommand = vscode.commands.registerCommand('qoder.inspectCache', async () => {
+        try {
+            const entries = responseCache.list();
+            if (entries.length === 0) {
+                vscode.window.showInformationMessage('AI response cache is empty');
+                return;
+            }
+
+            const selected = await vscode.window.showQuickPick(entries.map(entry => ({
+                label: `$(database) ${entry.operation}`,
+                description: `${entry.provider}: ${entry.model} • ${new Date(entry.createdAt).toLocaleString()}`,
+                detail: `Expires ${new Date(entry.expiresAt).toLocaleString()}` +
+                    (entry.files.length > 0 ? ` • Depends on ${entry.files.map(file => vscode.workspace.asRelativePath(file.path)).join(', ')}` : ''),
+                entry
+            })), {
+                placeHolder: `${entries.length} cached AI response(s) - select one to view it`,
+                matchOnDescription: true,
+                matchOnDetail: true
+            });
+
+            if (!selected) return;
+
+            const doc = await vscode.workspace.openTextDocument({
+                content: JSON.stringify(selected.entry, null, 2),
+                language: 'json'
+            });
+            await vscode.window.showTextDocument(doc);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to inspect AI cache: ${error}`);
+        }
+    });
+
+    const clearCacheCommand = vscode.commands.registerCommand('qoder.clearCache', async () => {
+        try {
+            const confirm = await vscode.window.showWarningMessage(
+                'Clear all cached AI responses?',
+                { modal: true },
+                'Clear'
+            );
+            if (confirm !== 'Clear') return;
+
+            const removed = responseCache.clear();
+            vscode.window.showInformationMessage(`Cleared ${removed} cached AI response(s)`);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Failed to clear AI cache: ${error}`);
+        }
+    });
+
     // DD System Integration Commands
     const executeCodexCommand = vscode.commands.registerCommand('qoder.executeCodex', async () => {
         try {
@@ -282,10 +545,32 @@ function registerCommands(context: vscode.ExtensionContext) {
     // Register all commands
     context.subscriptions.push(
         startQuestCommand,
+        runQuestCommand,
+        rollbackTaskCommand,
+        rollbackQuestCommand,
+        saveQuestAsTemplateCommand,
+        exportQuestCommand,
+        importQuestCommand,
+        openQuestCommand,
+        openTaskCommand,
+        startTaskCommand,
+        completeTaskCommand,
+        skipTaskCommand,
+        resetTaskCommand,
+        openTaskFilesCommand,
+        archiveQuestCommand,
+        deleteQuestCommand,
+        browseQuestArchiveCommand,
+        showQuestDashboardCommand,
+        handOffQuestCommand,
         inlineChatCommand,
         generateWikiCommand,
         contextSearchCommand,
         showMemoryCommand,
+        showUsageReportCommand,
+        manageApiKeysCommand,
+        inspectCacheCommand,
+        clearCacheCommand,
         executeCodexCommand,
         superClaudeCommand,
         generateMediaCommand,
@@ -303,4 +588,7 @@ export function deactivate() {
     if (questManager) {
         questManager.dispose();
     }
+    if (usageLedger) {
+        usageLedger.dispose();
+    }
 }
\ No newline at end of file
@@ -1,10 +1,12 @@
 import * as vscode from 'vscode';
 import * as fs from 'fs';
 import * as path from 'path';
-import { exec } from 'child_process';
+import { exec, execFile, spawn } from 'child_process';
 import { promisify } from 'util';
+import { KeyManager } from '../core/KeyManager';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
 
 export interface DDSystemConfig {
     systemPath: string;
@@ -29,12 +31,13 @@ export class DDSystemIntegration {
     private config: DDSystemConfig;
     private initialized = false;
 
-    constructor() {
+    constructor(private keys: KeyManager) {
+        const systemPath = vscode.workspace.getConfiguration('qoder').get<string>('dd.systemPath') || '/Users/dd';
         this.config = {
-            systemPath: '/Users/dd',
-            envPath: '/Users/dd/.env',
-            binPath: '/Users/dd/bin',
-            sharedPath: '/Users/dd/shared',
+            systemPath,
+            envPath: path.join(systemPath, '.env'),
+            binPath: path.join(systemPath, 'bin'),
+            sharedPath: path.join(systemPath, 'shared'),
             codexAvailable: false,
             superClaudeAvailable: false
         };
@@ -48,8 +51,8 @@ export class DDSystemIntegration {
                 return false;
             }
 
-            // Load environment variables
-            await this.loadEnvironmentVariables();
+            // Bring API keys from the DD .env file into secure storage
+            await this.keys.importFromEnvFile(this.config.envPath);
 
             // Check available tools
             await this.checkAvailableTools();
@@ -65,39 +68,6 @@ export class DDSystemIntegration {
         }
     }
 
-    private async loadEnvironmentVariables(): Promise<void> {
-        if (!fs.existsSync(this.config.envPath)) {
-            return;
-        }
-
-        try {
-            const envContent = fs.readFileSync(this.config.envPath, 'utf-8');
-            const lines = envContent.split('\n');
-
-            for (const line of lines) {
-                const trimmed = line.trim();
-                if (trimmed && !trimmed.startsWith('#')) {
-                    const [key, value] = trimmed.split('=');
-                    if (key && value) {
-                        switch (key.trim()) {
-                            case 'BRAVE_API_KEY':
-                                this.config.braveApiKey = value.trim();
-                                break;
-                            case 'OPENAI_API_KEY':
-                                this.config.openaiApiKey = value.trim();
-                                break;
-                            case 'GEMINI_API_KEY':
-                                this.config.geminiApiKey = value.trim();
-                                break;
-                        }
-                    }
-                }
-            }
-        } catch (error) {
-            console.warn('Failed to load environment variables:', error);
-        }
-    }
-
     private async checkAvailableTools(): Promise<void> {
         // Check Codex availability
         const codexCommands = ['cxl', 'cxmarathon'];
@@ -165,6 +135,59 @@ export class DDSystemIntegration {
         }
     }
 
+    isMarathonAvailable(): boolean {
+        return fs.existsSync(path.join(this.config.binPath, 'cxmarathon'));
+    }
+
+    /**
+     * Runs cxmarathon on a job file in the given folder, passing its output
+     * on as it arrives. Resolves with the exit code, or null when the
+     * runner could not start or was cancelled.
+     */
+    runMarathonJob(
+        jobFile: string,
+        cwd: string,
+        onOutput: (text: string) => void,
+        signal: AbortSignal
+    ): Promise<number | null> {
+        const cmdPath = path.join(this.config.binPath, 'cxmarathon');
+
+        return new Promise(resolve => {
+            const child = spawn(cmdPath, ['--job', jobFile], {
+                cwd,
+                env: { ...process.env, PATH: `${this.config.binPath}${path.delimiter}${process.env.PATH}` },
+                detached: process.platform !== 'win32'
+            });
+
+            // The runner starts agents of its own, so the whole process group is stopped
+            const onAbort = () => {
+                if (!child.pid || child.exitCode !== null) return;
+                try {
+                    if (process.platform === 'win32') {
+                        child.kill();
+                    } else {
+                        process.kill(-child.pid, 'SIGTERM');
+                    }
+                } catch (error) {
+                    console.warn('Failed to stop cxmarathon:', error);
+                }
+            };
+            signal.addEventListener('abort', onAbort, { once: true });
+
+            child.stdout.on('data', (data: Buffer) => onOutput(data.toString()));
+            child.stderr.on('data', (data: Buffer) => onOutput(data.toString()));
+            child.on('error', error => {
+                onOutput(`Failed to start cxmarathon: ${error.message}\n`);
+                signal.removeEventListener('abort', onAbort);
+                resolve(null);
+            });
+            child.on('close', code => {
+                signal.removeEventListener('abort', onAbort);
+                resolve(signal.aborted ? null : code);
+            });
+        });
+    }
+
     private async checkCodexRateLimit(): Promise<boolean> {
         try {
             // Quick test command to check if Codex is available
@@ -198,8 +221,9 @@ export class DDSystemIntegration {
     }
 
     async searchWithBrave(query: string, count = 5): Promise<any[]> {
-        if (!this.config.braveApiKey) {
-            throw new Error('Brave API key not configured in DD system');
+        const braveApiKey = this.keys.getKey('brave');
+        if (!braveApiKey) {
+            throw new Error('Brave API key not configured. Run "Qoder: Manage API Keys" to add it.');
         }
 
         try {
@@ -207,7 +231,7 @@ export class DDSystemIntegration {
                 `https://api.search.brave.com/res/v1/web/search?q=${encodeURIComponent(query)}&count=${count}`,
                 {
                     headers: {
-                        'X-Subscription-Token': this.config.braveApiKey
+                        'X-Subscription-Token': braveApiKey
                     }
                 }
             );
@@ -304,6 +328,10 @@ export class DDSystemIntegration {
         }
     }
 
+    isSpreadsheetAvailable(): boolean {
+        return fs.existsSync(path.join(this.config.binPath, 'ddsheets'));
+    }
+
     async updateSpreadsheet(
         spreadsheetId: string,
         data: string[],
@@ -315,9 +343,8 @@ export class DDSystemIntegration {
                 throw new Error('Spreadsheet integration not available');
             }
 
-            const args = [operation, `"${spreadsheetId}"`, ...data.map(d => `"${d}"`)];
-            
-            await execAsync(`"${ddsheetsPath}" ${args.join(' ')}`, {
+            // Passed without a shell, so cell text with quotes or $ arrives unchanged
+            await execFileAsync(ddsheetsPath, [operation, spreadsheetId, ...data], {
                 cwd: this.config.systemPath,
                 timeout: 30000
             });
@@ -415,8 +442,14 @@ export class DDSystemIntegration {
         return content.substring(0, 200) + '...';
     }
 
+    // Keys are read from the key manager so the status always reflects secure storage
     getConfig(): DDSystemConfig {
-        return { ...this.config };
+        return {
+            ...this.config,
+            braveApiKey: this.keys.getKey('brave'),
+            openaiApiKey: this.keys.getKey('openai'),
+            geminiApiKey: this.keys.getKey('gemini')
+        };
     }
 
     isInitialized(): boolean {
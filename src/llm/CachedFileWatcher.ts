@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ResponseCache } from './ResponseCache';
+
+// Entries are often written in bursts; rebuild the watchers once they settle
+const UPDATE_DELAY_MS = 500;
+
+/**
+ * Watches only the files that cached responses were built from, one
+ * watcher per directory, and drops the affected entries as soon as one of
+ * them changes or is deleted. Watching the whole workspace instead would
+ * wake the extension on every write in large repositories.
+ */
+export class CachedFileWatcher implements vscode.Disposable {
+    private watchers: vscode.FileSystemWatcher[] = [];
+    private watchedFiles = '';
+    private updateTimer: NodeJS.Timeout | undefined;
+    private subscription: { dispose(): void };
+
+    constructor(private cache: ResponseCache) {
+        this.subscription = cache.onDidChangeFiles(() => this.scheduleUpdate());
+        this.update();
+    }
+
+    private scheduleUpdate(): void {
+        if (this.updateTimer) clearTimeout(this.updateTimer);
+        this.updateTimer = setTimeout(() => this.update(), UPDATE_DELAY_MS);
+    }
+
+    private update(): void {
+        this.updateTimer = undefined;
+        const files = this.cache.getFiles().sort();
+        if (files.join('\n') === this.watchedFiles) return;
+        this.watchedFiles = files.join('\n');
+
+        this.disposeWatchers();
+        const byDirectory = new Map<string, string[]>();
+        for (const filePath of files) {
+            const directory = path.dirname(filePath);
+            byDirectory.set(directory, [...byDirectory.get(directory) || [], path.basename(filePath)]);
+        }
+
+        for (const [directory, names] of byDirectory) {
+            const glob = names.length === 1 ? names[0] : `{${names.join(',')}}`;
+            const watcher = vscode.workspace.createFileSystemWatcher(new vscode.RelativePattern(vscode.Uri.file(directory), glob), true);
+            watcher.onDidChange(uri => this.cache.invalidateFile(uri.fsPath));
+            watcher.onDidDelete(uri => this.cache.invalidateFile(uri.fsPath));
+            this.watchers.push(watcher);
+        }
+    }
+
+    private disposeWatchers(): void {
+        this.watchers.forEach(watcher => watcher.dispose());
+        this.watchers = [];
+    }
+
+    dispose(): void {
+        if (this.updateTimer) clearTimeout(this.updateTimer);
+        this.subscription.dispose();
+        this.disposeWatchers();
+    }
+}
\ No newline at end of file
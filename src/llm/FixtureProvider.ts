@@ -0,0 +1,96 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { ChatMessage, CompletionRequest, CompletionResult, LLMProvider, estimateTokens, replayAsStream } from './LLMProvider';
+
+export type FixtureMode = 'replay' | 'record';
+
+export interface ModelFixture {
+    key: string;
+    feature: string;
+    operation: string;
+    messages: ChatMessage[];
+    content: string;
+    model: string;
+    recordedAt: string;
+    usage?: CompletionResult['usage'];
+}
+
+/**
+ * Serves recorded completions from a fixture directory, one JSON file per
+ * prompt hash. In record mode every request is forwarded to a real provider
+ * and its response written back, so a fixture set can be refreshed and then
+ * replayed offline (e.g. in CI).
+ */
+export class FixtureProvider implements LLMProvider {
+    readonly type = 'fixture' as const;
+    readonly model: string;
+
+    constructor(
+        private fixtureDir: string,
+        private mode: FixtureMode,
+        private recorder: LLMProvider | null = null
+    ) {
+        this.model = recorder ? `fixture:${recorder.model}` : 'fixture';
+        if (mode === 'record' && !recorder) {
+            throw new Error('Fixture record mode requires a provider to record from');
+        }
+    }
+
+    static getFixtureKey(messages: ChatMessage[]): string {
+        const normalized = messages.map(message => ({ role: message.role, content: message.content }));
+        return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+    }
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+        const key = FixtureProvider.getFixtureKey(request.messages);
+        const fixturePath = path.join(this.fixtureDir, `${key}.json`);
+
+        if (this.mode === 'record') {
+            return this.record(request, key, fixturePath);
+        }
+
+        if (!fs.existsSync(fixturePath)) {
+            throw new Error(
+                `No fixture recorded for ${request.operation} (${key.substring(0, 12)}). ` +
+                `Run once with qoder.ai.fixtures.mode set to "record".`
+            );
+        }
+
+        const fixture: ModelFixture = JSON.parse(fs.readFileSync(fixturePath, 'utf-8'));
+        await replayAsStream(fixture.content, request);
+        return {
+            content: fixture.content,
+            model: fixture.model,
+            provider: this.type,
+            usage: fixture.usage
+        };
+    }
+
+    // Fixed estimate so prompts assemble identically when recording and replaying
+    countTokens(text: string): number {
+        return estimateTokens(text, 4);
+    }
+
+    private async record(request: CompletionRequest, key: string, fixturePath: string): Promise<CompletionResult> {
+        const result = await this.recorder!.complete(request);
+
+        const fixture: ModelFixture = {
+            key,
+            feature: request.feature,
+            operation: request.operation,
+            messages: request.messages,
+            content: result.content,
+            model: result.model,
+            recordedAt: new Date().toISOString(),
+            usage: result.usage
+        };
+
+        if (!fs.existsSync(this.fixtureDir)) {
+            fs.mkdirSync(this.fixtureDir, { recursive: true });
+        }
+        fs.writeFileSync(fixturePath, JSON.stringify(fixture, null, 2));
+
+        return result;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,90 @@
+export type LLMErrorCategory =
+    | 'auth' // Missing, invalid or unauthorized API key
+    | 'quota' // Account out of credit; waiting will not help
+    | 'rate-limit'
+    | 'network'
+    | 'timeout'
+    | 'content-filter'
+    | 'server'
+    | 'invalid-request'
+    | 'cancelled'
+    | 'unknown';
+
+const RETRYABLE_CATEGORIES: LLMErrorCategory[] = ['rate-limit', 'network', 'timeout', 'server'];
+
+const NETWORK_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'EAI_AGAIN', 'EHOSTUNREACH', 'ENETUNREACH', 'EPIPE'];
+
+export class LLMError extends Error {
+    constructor(
+        message: string,
+        public readonly category: LLMErrorCategory,
+        public readonly status?: number,
+        public readonly retryAfterMs?: number
+    ) {
+        super(message);
+        this.name = 'LLMError';
+    }
+
+    get retryable(): boolean {
+        return RETRYABLE_CATEGORIES.includes(this.category);
+    }
+}
+
+/**
+ * Maps anything a provider may throw onto an LLMError category, using the
+ * HTTP status and error code of API errors and the Node error code of
+ * socket failures. LLMErrors are returned unchanged.
+ */
+export function classifyError(error: any): LLMError {
+    if (error instanceof LLMError) return error;
+
+    const message = error?.message || String(error);
+    const status: number | undefined = typeof error?.status === 'number' ? error.status : undefined;
+    const code: string | undefined = error?.code || error?.error?.code || error?.cause?.code;
+    const retryAfterMs = parseRetryAfter(error?.headers);
+
+    if (error?.name === 'AbortError') {
+        return new LLMError(message, 'cancelled');
+    }
+
+    if (status !== undefined) {
+        if (status === 401 || status === 403) return new LLMError(message, 'auth', status);
+        if (status === 429) {
+            return code === 'insufficient_quota'
+                ? new LLMError(message, 'quota', status)
+                : new LLMError(message, 'rate-limit', status, retryAfterMs);
+        }
+        if (code === 'content_filter' || code === 'content_policy_violation') {
+            return new LLMError(message, 'content-filter', status);
+        }
+        if (status === 408) return new LLMError(message, 'timeout', status, retryAfterMs);
+        if (status >= 500) return new LLMError(message, 'server', status, retryAfterMs);
+        if (status >= 400) return new LLMError(message, 'invalid-request', status);
+    }
+
+    if (code === 'ETIMEDOUT' || code === 'UND_ERR_CONNECT_TIMEOUT') {
+        return new LLMError(message, 'timeout');
+    }
+    if (code && NETWORK_ERROR_CODES.includes(code)) {
+        return new LLMError(message, 'network');
+    }
+
+    return new LLMError(message, 'unknown', status);
+}
+
+// Supports retry-after-ms (OpenAI) and Retry-After in seconds or as an HTTP date
+export function parseRetryAfter(headers: Record<string, string | null | undefined> | undefined): number | undefined {
+    if (!headers) return undefined;
+
+    const milliseconds = parseFloat(headers['retry-after-ms'] || '');
+    if (!isNaN(milliseconds)) return milliseconds;
+
+    const retryAfter = headers['retry-after'];
+    if (!retryAfter) return undefined;
+
+    const seconds = parseFloat(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+
+    const date = Date.parse(retryAfter);
+    return isNaN(date) ? undefined : Math.max(date - Date.now(), 0);
+}
\ No newline at end of file
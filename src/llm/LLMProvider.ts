@@ -0,0 +1,90 @@
+export type LLMFeature = 'quest' | 'inlineChat' | 'searchEnhancement';
+
+export type LLMProviderType = 'openai' | 'openai-compatible' | 'mock' | 'fixture';
+
+export interface ChatMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface CompletionRequest {
+    feature: LLMFeature;
+    operation: string; // e.g. 'quest.specification', used for logging and mock responses
+    messages: ChatMessage[];
+    temperature?: number;
+    maxTokens?: number;
+    onToken?: (token: string) => void; // Streams the completion when set
+    signal?: AbortSignal;
+    cache?: CacheOptions; // Serve repeated requests from the response cache
+}
+
+export interface CacheOptions {
+    ttlMs?: number; // Defaults to qoder.ai.cache.ttlHours
+    files?: string[]; // Absolute paths of files the prompt was built from; edits invalidate the entry
+}
+
+export interface CompletionResult {
+    content: string;
+    model: string;
+    provider: LLMProviderType;
+    usage?: {
+        promptTokens: number;
+        completionTokens: number;
+    };
+    cached?: boolean;
+}
+
+export interface ProviderSettings {
+    type: LLMProviderType;
+    model: string;
+    baseUrl?: string;
+    apiKey?: string;
+    timeoutMs?: number;
+    fixtures?: {
+        path: string;
+        mode: 'replay' | 'record';
+        recordWith: ProviderSettings;
+    };
+}
+
+export interface LLMProvider {
+    readonly type: LLMProviderType;
+    readonly model: string;
+    complete(request: CompletionRequest): Promise<CompletionResult>;
+    countTokens(text: string): number;
+}
+
+/**
+ * Cheap token estimate without shipping a tokenizer. ASCII text averages
+ * charsPerToken characters per token; other scripts (CJK etc.) are closer
+ * to one token per character.
+ */
+export function estimateTokens(text: string, charsPerToken: number): number {
+    let ascii = 0;
+    let other = 0;
+    for (let i = 0; i < text.length; i++) {
+        if (text.charCodeAt(i) < 128) {
+            ascii++;
+        } else {
+            other++;
+        }
+    }
+    return Math.ceil(ascii / charsPerToken + other);
+}
+
+/**
+ * Emits already-available text through onToken in small chunks, for
+ * providers that have the whole response up front (mock, fixtures).
+ */
+export async function replayAsStream(content: string, request: CompletionRequest): Promise<void> {
+    if (!request.onToken) return;
+
+    const chunks = content.match(/\S+\s*|\s+/g) || [];
+    for (const chunk of chunks) {
+        if (request.signal?.aborted) {
+            throw new Error('Request aborted');
+        }
+        request.onToken(chunk);
+        await new Promise(resolve => setImmediate(resolve));
+    }
+}
\ No newline at end of file
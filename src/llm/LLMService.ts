@@ -0,0 +1,411 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import {
+    CompletionRequest,
+    CompletionResult,
+    LLMFeature,
+    LLMProvider,
+    LLMProviderType,
+    ProviderSettings,
+    replayAsStream
+} from './LLMProvider';
+import { OpenAIProvider } from './OpenAIProvider';
+import { MockProvider } from './MockProvider';
+import { FixtureProvider } from './FixtureProvider';
+import { JsonSchema, StructuredOutputError, parseStructured } from './StructuredOutput';
+import { PromptBuilder, getContextWindow } from './PromptBuilder';
+import { ResponseCache } from './ResponseCache';
+import { LLMError, classifyError } from './LLMError';
+import { ConcurrencyLimiter, withRetry } from './RetryPolicy';
+
+const RETRY_BASE_DELAY_MS = 1000;
+const RETRY_MAX_DELAY_MS = 60000;
+
+// Bridges a VS Code cancellation token to the AbortSignal providers understand
+export function createAbortController(token?: vscode.CancellationToken): AbortController {
+    const controller = new AbortController();
+    token?.onCancellationRequested(() => controller.abort());
+    return controller;
+}
+
+export interface UsageRecord {
+    feature: LLMFeature;
+    operation: string;
+    provider: LLMProviderType;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    tokensEstimated: boolean; // Provider did not report usage (streaming, local servers)
+    latencyMs: number;
+}
+
+// Implemented by the usage ledger; kept as an interface so the model layer has no storage dependency
+export interface UsageTracker {
+    checkBudget(feature: LLMFeature): Promise<void>;
+    record(usage: UsageRecord): Promise<void>;
+}
+
+// Implemented by the key manager so providers read keys from secure storage
+export interface ApiKeySource {
+    getKey(name: 'openai'): string | undefined;
+}
+
+interface FeatureOverride {
+    provider?: LLMProviderType;
+    model?: string;
+    baseUrl?: string;
+}
+
+/**
+ * Shared entry point for every model call made by the extension.
+ * Resolves the provider for each feature from the qoder.ai.* settings
+ * and keeps one client per distinct provider configuration.
+ */
+export class LLMService {
+    private providers: Map<string, LLMProvider> = new Map();
+    private limiters: Map<string, ConcurrencyLimiter> = new Map();
+    private usageTracker: UsageTracker | null = null;
+    private responseCache: ResponseCache | null = null;
+    private keySource: ApiKeySource | null = null;
+
+    setUsageTracker(tracker: UsageTracker): void {
+        this.usageTracker = tracker;
+    }
+
+    setResponseCache(cache: ResponseCache): void {
+        this.responseCache = cache;
+    }
+
+    setApiKeySource(source: ApiKeySource): void {
+        this.keySource = source;
+    }
+
+    isConfigured(feature: LLMFeature): boolean {
+        return this.isSettingsComplete(this.resolveSettings(feature));
+    }
+
+    getProvider(feature: LLMFeature): LLMProvider {
+        const settings = this.resolveSettings(feature);
+        if (!this.isConfigured(feature)) {
+            throw new Error(this.getConfigurationHint(settings.type));
+        }
+
+        const key = JSON.stringify({ ...settings, apiKey: undefined });
+        let provider = this.providers.get(key);
+        if (!provider) {
+            provider = this.createProvider(settings);
+            this.providers.set(key, provider);
+        }
+        return provider;
+    }
+
+    /**
+     * Prompt builder sized for the feature's model: the context window
+     * (qoder.ai.contextWindow or the model's known size) minus the tokens
+     * reserved for the completion, capped by qoder.ai.maxPromptTokens.
+     */
+    createPromptBuilder(feature: LLMFeature, completionTokens: number): PromptBuilder {
+        const provider = this.getProvider(feature);
+        const config = vscode.workspace.getConfiguration('qoder');
+
+        const contextWindow = config.get<number>('ai.contextWindow', 0) || getContextWindow(provider.model);
+        const available = Math.max(contextWindow - completionTokens, 0);
+        const maxPromptTokens = config.get<number>('ai.maxPromptTokens', 0);
+        const budget = maxPromptTokens > 0 ? Math.min(maxPromptTokens, available) : available;
+
+        return new PromptBuilder(text => provider.countTokens(text), budget);
+    }
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+        const provider = this.getProvider(request.feature);
+
+        const cacheKey = this.getCacheKey(request, provider);
+        const cached = cacheKey ? this.responseCache!.get(cacheKey) : null;
+        if (cached) {
+            await replayAsStream(cached.content, request);
+            return {
+                content: cached.content,
+                model: cached.model,
+                provider: cached.provider as LLMProviderType,
+                usage: cached.usage,
+                cached: true
+            };
+        }
+
+        await this.usageTracker?.checkBudget(request.feature);
+
+        const maxAttempts = Math.max(vscode.workspace.getConfiguration('qoder').get<number>('ai.retry.maxAttempts', 3), 1);
+        const limiter = this.getLimiter(request.feature);
+
+        // A stream that already reached the user cannot be retried without duplicating output
+        let streamed = false;
+        const attemptRequest: CompletionRequest = request.onToken
+            ? { ...request, onToken: token => { streamed = true; request.onToken!(token); } }
+            : request;
+
+        const startTime = Date.now();
+        let result: CompletionResult;
+        try {
+            result = await withRetry(() => limiter.run(() => provider.complete(attemptRequest), request.signal), {
+                maxAttempts,
+                baseDelayMs: RETRY_BASE_DELAY_MS,
+                maxDelayMs: RETRY_MAX_DELAY_MS,
+                signal: request.signal,
+                canRetry: () => !streamed,
+                onRetry: (error, attempt, delayMs) => vscode.window.setStatusBarMessage(
+                    `$(sync~spin) Qoder: ${error.category} error from ${provider.type}, retrying in ${Math.ceil(delayMs / 1000)}s (${attempt + 1}/${maxAttempts})`,
+                    delayMs
+                )
+            });
+        } catch (error) {
+            throw this.toUserFacingError(classifyError(error), provider, maxAttempts);
+        }
+
+        this.recordUsage(request, result, provider, Date.now() - startTime);
+
+        if (!result.content) {
+            throw new Error('No response from AI');
+        }
+
+        if (cacheKey) {
+            this.storeInCache(cacheKey, request, result);
+        }
+        return result;
+    }
+
+    /**
+     * Completes a request whose answer must match a JSON schema. Invalid
+     * output is sent back to the model together with the validation errors,
+     * up to qoder.ai.maxRepairAttempts times, before failing with the
+     * field-level errors of the last attempt.
+     */
+    async completeStructured<T>(request: CompletionRequest, schema: JsonSchema): Promise<T> {
+        const maxRepairs = vscode.workspace.getConfiguration('qoder').get<number>('ai.maxRepairAttempts', 1);
+
+        let result = await this.complete(request);
+        let parsed = parseStructured<T>(result.content, schema);
+        const cacheKey = this.getCacheKey(request, this.getProvider(request.feature));
+        const repaired = parsed.errors.length > 0;
+
+        for (let attempt = 0; parsed.errors.length > 0 && attempt < maxRepairs; attempt++) {
+            result = await this.complete({
+                feature: request.feature,
+                operation: `${request.operation}.repair`,
+                messages: [
+                    ...request.messages,
+                    { role: 'assistant', content: result.content },
+                    { role: 'user', content: this.getRepairPrompt(parsed.errors, schema) }
+                ],
+                temperature: 0,
+                maxTokens: request.maxTokens,
+                signal: request.signal
+            });
+            parsed = parseStructured<T>(result.content, schema);
+        }
+
+        // Only valid output stays cached: a repaired answer replaces the broken one
+        if (cacheKey && repaired) {
+            if (parsed.errors.length > 0) {
+                this.responseCache!.delete(cacheKey);
+            } else {
+                this.storeInCache(cacheKey, request, result);
+            }
+        }
+
+        if (parsed.errors.length > 0) {
+            throw new StructuredOutputError(
+                `Invalid ${request.operation} response from AI`,
+                parsed.errors,
+                result.content
+            );
+        }
+        return parsed.value as T;
+    }
+
+    // Drop cached clients so the next call picks up changed settings
+    reset(): void {
+        this.providers.clear();
+        this.limiters.clear();
+    }
+
+    // One limiter per endpoint, shared by every feature and model that uses it
+    private getLimiter(feature: LLMFeature): ConcurrencyLimiter {
+        const settings = this.resolveSettings(feature);
+        const key = `${settings.type}:${settings.baseUrl || ''}`;
+
+        let limiter = this.limiters.get(key);
+        if (!limiter) {
+            const limit = vscode.workspace.getConfiguration('qoder').get<number>('ai.maxConcurrentRequests', 4);
+            limiter = new ConcurrencyLimiter(Math.max(limit, 1));
+            this.limiters.set(key, limiter);
+        }
+        return limiter;
+    }
+
+    private toUserFacingError(error: LLMError, provider: LLMProvider, maxAttempts: number): LLMError {
+        if (error.category === 'cancelled') return error;
+
+        const hint = this.getErrorHint(error, provider, maxAttempts);
+        return new LLMError(`${hint} (${error.message})`, error.category, error.status, error.retryAfterMs);
+    }
+
+    private getErrorHint(error: LLMError, provider: LLMProvider, maxAttempts: number): string {
+        const label = `${provider.type} (${provider.model})`;
+        const local = provider.type !== 'openai';
+
+        switch (error.category) {
+            case 'auth':
+                return local
+                    ? `Authentication with ${label} failed. Check the API key expected by the endpoint.`
+                    : `Authentication with ${label} failed. Check the OpenAI API key.`;
+            case 'quota':
+                return `${label} quota is exhausted. Check the plan and billing details of the account.`;
+            case 'rate-limit':
+                return `${label} is rate limiting requests and did not recover after ${maxAttempts} attempt(s). ` +
+                    'Try again shortly or lower qoder.ai.maxConcurrentRequests.';
+            case 'network':
+                return local
+                    ? `Could not reach ${label}. Check that the server is running and qoder.ai.baseUrl is correct.`
+                    : `Could not reach ${label}. Check the network connection.`;
+            case 'timeout':
+                return `${label} did not respond in time. Try again or raise qoder.ai.requestTimeoutSeconds.`;
+            case 'content-filter':
+                return `${label} refused the request because of its content filter. Rephrase the request or leave out the flagged content.`;
+            case 'server':
+                return `${label} returned a server error${error.status ? ` (HTTP ${error.status})` : ''}. Try again later.`;
+            case 'invalid-request':
+                return `${label} rejected the request.`;
+            default:
+                return `${label} request failed.`;
+        }
+    }
+
+    private getCacheKey(request: CompletionRequest, provider: LLMProvider): string | null {
+        if (!request.cache || !this.responseCache) return null;
+        if (!vscode.workspace.getConfiguration('qoder').get<boolean>('ai.cache.enabled', true)) return null;
+        return ResponseCache.getKey(request, provider);
+    }
+
+    private storeInCache(key: string, request: CompletionRequest, result: CompletionResult): void {
+        const ttlHours = vscode.workspace.getConfiguration('qoder').get<number>('ai.cache.ttlHours', 24);
+        try {
+            this.responseCache!.set(key, request, result, request.cache?.ttlMs ?? ttlHours * 60 * 60 * 1000, request.cache?.files);
+        } catch (error) {
+            console.warn('Failed to cache AI response:', error);
+        }
+    }
+
+    private recordUsage(request: CompletionRequest, result: CompletionResult, provider: LLMProvider, latencyMs: number): void {
+        if (!this.usageTracker) return;
+
+        const prompt = request.messages.map(message => message.content).join('\n');
+        this.usageTracker.record({
+            feature: request.feature,
+            operation: request.operation,
+            provider: result.provider,
+            model: result.model,
+            promptTokens: result.usage?.promptTokens ?? provider.countTokens(prompt),
+            completionTokens: result.usage?.completionTokens ?? provider.countTokens(result.content),
+            tokensEstimated: !result.usage,
+            latencyMs
+        }).catch(error => console.warn('Failed to record AI usage:', error));
+    }
+
+    private isSettingsComplete(settings: ProviderSettings): boolean {
+        switch (settings.type) {
+            case 'openai':
+                return !!settings.apiKey;
+            case 'openai-compatible':
+                return !!settings.baseUrl;
+            case 'mock':
+                return true;
+            case 'fixture':
+                return !!settings.fixtures && (
+                    settings.fixtures.mode === 'replay' || this.isSettingsComplete(settings.fixtures.recordWith)
+                );
+            default:
+                return false;
+        }
+    }
+
+    private resolveSettings(feature: LLMFeature): ProviderSettings {
+        const config = vscode.workspace.getConfiguration('qoder');
+        const overrides = config.get<Record<string, FeatureOverride>>('ai.featureOverrides', {});
+        const override = overrides[feature] || {};
+
+        const type = override.provider || config.get<LLMProviderType>('ai.provider', 'openai');
+        const settings = this.buildSettings(type, override);
+
+        if (type === 'fixture') {
+            const recordType = config.get<LLMProviderType>('ai.fixtures.recordWith', 'openai');
+            settings.fixtures = {
+                path: this.resolveFixtureDir(config.get<string>('ai.fixtures.path', '.qoder/fixtures')),
+                mode: config.get<'replay' | 'record'>('ai.fixtures.mode', 'replay'),
+                recordWith: this.buildSettings(recordType === 'fixture' ? 'openai' : recordType, override)
+            };
+        }
+        return settings;
+    }
+
+    private buildSettings(type: LLMProviderType, override: FeatureOverride): ProviderSettings {
+        const config = vscode.workspace.getConfiguration('qoder');
+        const defaultModel = type === 'mock' || type === 'fixture' ? type : 'gpt-4';
+
+        return {
+            type,
+            model: override.model || config.get<string>('ai.model') || defaultModel,
+            baseUrl: override.baseUrl || config.get<string>('ai.baseUrl') || undefined,
+            // The plain-text setting only applies until the key manager has migrated it
+            apiKey: this.keySource?.getKey('openai') || config.get<string>('openai.apiKey') || undefined,
+            timeoutMs: config.get<number>('ai.requestTimeoutSeconds', 120) * 1000
+        };
+    }
+
+    // Relative fixture paths are resolved against the first workspace folder
+    private resolveFixtureDir(fixturePath: string): string {
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        if (path.isAbsolute(fixturePath) || !workspaceFolder) {
+            return fixturePath;
+        }
+        return path.join(workspaceFolder.uri.fsPath, fixturePath);
+    }
+
+    private createProvider(settings: ProviderSettings): LLMProvider {
+        switch (settings.type) {
+            case 'mock':
+                return new MockProvider(settings.model);
+            case 'fixture':
+                return new FixtureProvider(
+                    settings.fixtures!.path,
+                    settings.fixtures!.mode,
+                    settings.fixtures!.mode === 'record' ? this.createProvider(settings.fixtures!.recordWith) : null
+                );
+            case 'openai':
+            case 'openai-compatible':
+                return new OpenAIProvider(settings);
+            default:
+                throw new Error(`Unknown AI provider: ${settings.type}`);
+        }
+    }
+
+    private getRepairPrompt(errors: string[], schema: JsonSchema): string {
+        return `Your previous response could not be used. It failed validation with these errors:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Reply again with only the corrected JSON, no prose and no code fences. It must match this JSON schema:
+${JSON.stringify(schema, null, 2)}`;
+    }
+
+    private getConfigurationHint(type: LLMProviderType): string {
+        switch (type) {
+            case 'openai':
+                return 'OpenAI API key not configured. Run "Qoder: Manage API Keys" to add it.';
+            case 'openai-compatible':
+                return 'OpenAI-compatible endpoint not configured. Please set qoder.ai.baseUrl in settings.';
+            case 'fixture':
+                return 'Fixture record mode needs a configured provider. Please check qoder.ai.fixtures.recordWith.';
+            default:
+                return `AI provider "${type}" is not configured`;
+        }
+    }
+}
\ No newline at end of file
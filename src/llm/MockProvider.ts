@@ -0,0 +1,124 @@
+import * as crypto from 'crypto';
+import { CompletionRequest, CompletionResult, LLMProvider, estimateTokens, replayAsStream } from './LLMProvider';
+
+/**
+ * Deterministic provider that never touches the network.
+ * The same request always produces the same response, so features
+ * can be exercised without an API key.
+ */
+export class MockProvider implements LLMProvider {
+    readonly type = 'mock' as const;
+    readonly model: string;
+
+    constructor(model: string = 'mock') {
+        this.model = model;
+    }
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+        const prompt = request.messages.map(message => message.content).join('\n');
+        const digest = crypto.createHash('sha256').update(prompt).digest('hex').substring(0, 8);
+        const content = this.getResponse(request.operation, digest);
+        await replayAsStream(content, request);
+
+        return {
+            content,
+            model: this.model,
+            provider: this.type,
+            usage: {
+                promptTokens: this.countTokens(prompt),
+                completionTokens: this.countTokens(content)
+            }
+        };
+    }
+
+    countTokens(text: string): number {
+        return estimateTokens(text, 4);
+    }
+
+    private getResponse(operation: string, digest: string): string {
+        switch (operation) {
+            case 'quest.specification':
+                return JSON.stringify({
+                    title: `Mock Quest ${digest}`,
+                    description: 'Deterministic specification produced by the mock provider.',
+                    requirements: [
+                        'Implement the requested feature',
+                        'Add tests covering the new behaviour',
+                        'Document the change'
+                    ]
+                });
+
+            case 'quest.tasks':
+                return JSON.stringify([
+                    {
+                        id: 'task_1',
+                        title: 'Set up project structure',
+                        description: 'Create the files needed for the feature.',
+                        filePaths: ['src/index.ts'],
+                        dependencies: [],
+                        estimateHours: 1
+                    },
+                    {
+                        id: 'task_2',
+                        title: 'Implement feature',
+                        description: 'Write the implementation.',
+                        filePaths: ['src/feature.ts'],
+                        dependencies: ['task_1'],
+                        estimateHours: 3
+                    },
+                    {
+                        id: 'task_3',
+                        title: 'Write tests',
+                        description: 'Cover the implementation with tests.',
+                        filePaths: ['src/feature.test.ts'],
+                        dependencies: ['task_2'],
+                        verifyCommands: ['npm test'],
+                        estimateHours: 2
+                    }
+                ]);
+
+            case 'quest.fillTemplate':
+                return JSON.stringify({
+                    title: `Mock Template Quest ${digest}`,
+                    description: 'Template filled in by the mock provider.',
+                    additionalRequirements: [],
+                    tasks: []
+                });
+
+            case 'quest.regenerateTasks':
+                return JSON.stringify({
+                    removeTaskIds: [],
+                    tasks: [
+                        {
+                            id: `task_${digest}`,
+                            title: 'Cover changed requirements',
+                            description: 'Task added by the mock provider after a requirement change.',
+                            filePaths: [],
+                            dependencies: []
+                        }
+                    ]
+                });
+
+            case 'quest.taskChanges':
+                return JSON.stringify({
+                    summary: `Mock changes (${digest})`,
+                    changes: [
+                        {
+                            path: `mock-output/${digest}.md`,
+                            action: 'create',
+                            content: `# Mock output ${digest}\n\nGenerated by the mock provider.\n`
+                        }
+                    ]
+                });
+
+            case 'inlineChat.response':
+                return JSON.stringify({
+                    explanation: `Mock explanation (${digest}).`,
+                    suggestions: ['This response was generated by the mock provider']
+                });
+
+            default:
+                return `Mock response for ${operation} (${digest})`;
+        }
+    }
+}
\ No newline at end of file
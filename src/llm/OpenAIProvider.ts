@@ -0,0 +1,106 @@
+import { APIConnectionError, APIConnectionTimeoutError, APIUserAbortError, OpenAI } from 'openai';
+import { CompletionRequest, CompletionResult, LLMProvider, ProviderSettings, estimateTokens } from './LLMProvider';
+import { LLMError, classifyError } from './LLMError';
+
+/**
+ * Provider for the OpenAI API and any server exposing the same
+ * chat completions endpoint (Ollama, llama.cpp, vLLM, LM Studio...)
+ */
+export class OpenAIProvider implements LLMProvider {
+    readonly type: 'openai' | 'openai-compatible';
+    readonly model: string;
+    private client: OpenAI;
+
+    constructor(settings: ProviderSettings) {
+        this.type = settings.type === 'openai-compatible' ? 'openai-compatible' : 'openai';
+        this.model = settings.model;
+        this.client = new OpenAI({
+            // Local servers usually ignore the key, but the client requires one
+            apiKey: settings.apiKey || 'not-required',
+            baseURL: settings.baseUrl || undefined,
+            timeout: settings.timeoutMs,
+            // Retries are handled by LLMService so they can be limited and reported consistently
+            maxRetries: 0
+        });
+    }
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+        try {
+            return request.onToken ? await this.stream(request) : await this.request(request);
+        } catch (error) {
+            throw this.toLLMError(error);
+        }
+    }
+
+    // Local models mostly use SentencePiece vocabularies, which split English more finely
+    countTokens(text: string): number {
+        return estimateTokens(text, this.type === 'openai' ? 4 : 3.5);
+    }
+
+    private async request(request: CompletionRequest): Promise<CompletionResult> {
+        const response = await this.client.chat.completions.create({
+            model: this.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens
+        }, { signal: request.signal });
+
+        if (response.choices[0]?.finish_reason === 'content_filter') {
+            throw new LLMError('Response was blocked by the content filter', 'content-filter');
+        }
+
+        return {
+            content: response.choices[0]?.message?.content || '',
+            model: response.model || this.model,
+            provider: this.type,
+            usage: response.usage ? {
+                promptTokens: response.usage.prompt_tokens,
+                completionTokens: response.usage.completion_tokens
+            } : undefined
+        };
+    }
+
+    private async stream(request: CompletionRequest): Promise<CompletionResult> {
+        const stream = await this.client.chat.completions.create({
+            model: this.model,
+            messages: request.messages,
+            temperature: request.temperature,
+            max_tokens: request.maxTokens,
+            stream: true
+        }, { signal: request.signal });
+
+        let content = '';
+        let model = this.model;
+        for await (const chunk of stream) {
+            const token = chunk.choices[0]?.delta?.content;
+            if (token) {
+                content += token;
+                request.onToken!(token);
+            }
+            if (chunk.model) {
+                model = chunk.model;
+            }
+            if (chunk.choices[0]?.finish_reason === 'content_filter') {
+                throw new LLMError('Response was blocked by the content filter', 'content-filter');
+            }
+        }
+
+        // Usage is not reported for streamed completions
+        return { content, model, provider: this.type };
+    }
+
+    // The SDK reports aborts and connection failures as their own classes without an HTTP status
+    private toLLMError(error: unknown): LLMError {
+        if (error instanceof APIUserAbortError) {
+            return new LLMError('Request cancelled', 'cancelled');
+        }
+        if (error instanceof APIConnectionTimeoutError) {
+            return new LLMError('Request timed out', 'timeout');
+        }
+        if (error instanceof APIConnectionError) {
+            const cause = 'cause' in error && error.cause instanceof Error ? error.cause.message : undefined;
+            return new LLMError(cause ? `Connection error: ${cause}` : 'Connection error', 'network');
+        }
+        return classifyError(error);
+    }
+}
\ No newline at end of file
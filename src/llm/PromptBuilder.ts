@@ -0,0 +1,185 @@
+export interface PromptSection {
+    name: string; // Used when reporting what was dropped, e.g. 'code' or 'memories'
+    text?: string; // Free text, truncated line by line from the end
+    items?: string[]; // List entries, dropped whole from the end
+    wrap?: (body: string) => string; // Surrounds the (possibly truncated) body
+    priority?: number; // Higher priority sections get budget first
+    required?: boolean; // Always included in full
+}
+
+export interface DroppedSection {
+    name: string;
+    reason: 'truncated' | 'omitted';
+    originalTokens: number;
+    keptTokens: number;
+    droppedItems?: number;
+}
+
+export interface PromptBuildResult {
+    prompt: string;
+    tokens: number;
+    budget: number;
+    dropped: DroppedSection[];
+}
+
+// Context window sizes for known model families, longest prefix wins
+const CONTEXT_WINDOWS: Array<[string, number]> = [
+    ['gpt-4o', 128000],
+    ['gpt-4-turbo', 128000],
+    ['gpt-4-32k', 32768],
+    ['gpt-4', 8192],
+    ['gpt-3.5-turbo', 16385],
+    ['llama3', 8192],
+    ['mistral', 32768],
+    ['qwen', 32768]
+];
+
+export const DEFAULT_CONTEXT_WINDOW = 4096;
+
+export function getContextWindow(model: string): number {
+    const match = CONTEXT_WINDOWS
+        .filter(([prefix]) => model.toLowerCase().startsWith(prefix))
+        .sort((a, b) => b[0].length - a[0].length)[0];
+    return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Assembles a prompt from sections so that it fits a token budget.
+ * Required sections are always kept; the rest are filled in priority
+ * order and truncated or omitted once the budget runs out. Sections are
+ * emitted in the order they were added regardless of priority.
+ */
+export class PromptBuilder {
+    private sections: PromptSection[] = [];
+
+    constructor(
+        private countTokens: (text: string) => number,
+        private budget: number
+    ) {}
+
+    add(section: PromptSection): this {
+        this.sections.push(section);
+        return this;
+    }
+
+    build(): PromptBuildResult {
+        const rendered = new Map<PromptSection, string>();
+        const dropped: DroppedSection[] = [];
+        let remaining = this.budget;
+
+        for (const section of this.sections.filter(s => s.required)) {
+            const text = this.render(section, this.getBody(section));
+            rendered.set(section, text);
+            remaining -= this.countTokens(text);
+        }
+
+        const optional = this.sections
+            .filter(s => !s.required)
+            .sort((a, b) => (b.priority || 0) - (a.priority || 0));
+
+        for (const section of optional) {
+            const full = this.render(section, this.getBody(section));
+            const fullTokens = this.countTokens(full);
+
+            if (fullTokens <= remaining) {
+                rendered.set(section, full);
+                remaining -= fullTokens;
+                continue;
+            }
+
+            const fitted = section.items
+                ? this.fitItems(section, remaining)
+                : this.fitText(section, remaining);
+
+            if (fitted) {
+                const keptTokens = this.countTokens(fitted.text);
+                rendered.set(section, fitted.text);
+                remaining -= keptTokens;
+                dropped.push({
+                    name: section.name,
+                    reason: 'truncated',
+                    originalTokens: fullTokens,
+                    keptTokens,
+                    droppedItems: fitted.droppedItems
+                });
+            } else {
+                dropped.push({
+                    name: section.name,
+                    reason: 'omitted',
+                    originalTokens: fullTokens,
+                    keptTokens: 0,
+                    droppedItems: section.items?.length
+                });
+            }
+        }
+
+        const prompt = this.sections
+            .filter(section => rendered.has(section))
+            .map(section => rendered.get(section)!)
+            .join('\n');
+
+        return {
+            prompt,
+            tokens: this.countTokens(prompt),
+            budget: this.budget,
+            dropped
+        };
+    }
+
+    private getBody(section: PromptSection): string {
+        return section.items ? section.items.join('\n') : section.text || '';
+    }
+
+    private render(section: PromptSection, body: string): string {
+        return section.wrap ? section.wrap(body) : body;
+    }
+
+    private fitItems(section: PromptSection, available: number): { text: string; droppedItems: number } | null {
+        const items = section.items!;
+        const renderItems = (count: number) => this.render(section, items.slice(0, count).join('\n'));
+        const kept = this.largestFitting(items.length, count => this.countTokens(renderItems(count)) <= available);
+
+        if (kept === 0) return null;
+        return {
+            text: renderItems(kept),
+            droppedItems: items.length - kept
+        };
+    }
+
+    private fitText(section: PromptSection, available: number): { text: string; droppedItems?: number } | null {
+        const lines = (section.text || '').split('\n');
+        const renderLines = (count: number) => this.render(section, [
+            ...lines.slice(0, count),
+            `... [${lines.length - count} more line(s) truncated]`
+        ].join('\n'));
+        const kept = this.largestFitting(lines.length, count => this.countTokens(renderLines(count)) <= available);
+
+        if (kept === 0) return null;
+        return { text: renderLines(kept) };
+    }
+
+    // Binary search for the largest count in [0, max] that still fits
+    private largestFitting(max: number, fits: (count: number) => boolean): number {
+        let low = 0;
+        let high = max;
+        while (low < high) {
+            const mid = Math.ceil((low + high) / 2);
+            if (fits(mid)) {
+                low = mid;
+            } else {
+                high = mid - 1;
+            }
+        }
+        return low;
+    }
+}
+
+export function describeDropped(dropped: DroppedSection[]): string {
+    return dropped.map(section => {
+        if (section.reason === 'omitted') {
+            return `${section.name} omitted (${section.originalTokens} tokens)`;
+        }
+        const items = section.droppedItems ? `, ${section.droppedItems} item(s) dropped` : '';
+        return `${section.name} truncated ${section.originalTokens}→${section.keptTokens} tokens${items}`;
+    }).join('; ');
+}
\ No newline at end of file
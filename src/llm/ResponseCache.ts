@@ -0,0 +1,221 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { CompletionRequest, CompletionResult, LLMProvider } from './LLMProvider';
+
+export interface CachedFile {
+    path: string;
+    mtimeMs: number;
+    size: number;
+}
+
+export interface CacheEntry {
+    key: string;
+    feature: string;
+    operation: string;
+    provider: string;
+    model: string;
+    content: string;
+    usage?: CompletionResult['usage'];
+    createdAt: string;
+    expiresAt: string;
+    files: CachedFile[];
+}
+
+// Writes prune at most this often; loading always prunes
+const PRUNE_INTERVAL_MS = 60 * 60 * 1000;
+
+/**
+ * Content-addressed store of model responses, one JSON file per key.
+ * An entry is served only while it is within its TTL and every file it
+ * was built from still has the same size and modification time. Entries
+ * that no longer qualify are pruned from disk on load and on later writes.
+ */
+export class ResponseCache {
+    private fileIndex: Map<string, Set<string>> | null = null;
+    private fileListeners: Array<() => void> = [];
+    private lastPrunedAt = 0;
+
+    constructor(private cacheDir: string) {
+        this.prune();
+    }
+
+    static getKey(request: CompletionRequest, provider: LLMProvider): string {
+        const material = JSON.stringify({
+            provider: provider.type,
+            model: provider.model,
+            messages: request.messages.map(message => ({ role: message.role, content: message.content })),
+            temperature: request.temperature,
+            maxTokens: request.maxTokens
+        });
+        return crypto.createHash('sha256').update(material).digest('hex');
+    }
+
+    get(key: string): CacheEntry | null {
+        const entry = this.read(key);
+        if (!entry) return null;
+
+        if (new Date(entry.expiresAt).getTime() < Date.now() || !this.filesUnchanged(entry)) {
+            this.delete(key);
+            return null;
+        }
+        return entry;
+    }
+
+    set(key: string, request: CompletionRequest, result: CompletionResult, ttlMs: number, files: string[] = []): void {
+        const now = Date.now();
+        const entry: CacheEntry = {
+            key,
+            feature: request.feature,
+            operation: request.operation,
+            provider: result.provider,
+            model: result.model,
+            content: result.content,
+            usage: result.usage,
+            createdAt: new Date(now).toISOString(),
+            expiresAt: new Date(now + ttlMs).toISOString(),
+            files: files.map(filePath => this.stampFile(filePath)).filter((file): file is CachedFile => file !== null)
+        };
+
+        if (!fs.existsSync(this.cacheDir)) {
+            fs.mkdirSync(this.cacheDir, { recursive: true });
+        }
+        this.getFileIndex(); // Built before the write, so files new to the index are reported
+        fs.writeFileSync(this.getEntryPath(key), JSON.stringify(entry, null, 2));
+
+        for (const file of entry.files) {
+            this.indexFile(file.path, key);
+        }
+        if (now - this.lastPrunedAt > PRUNE_INTERVAL_MS) {
+            this.prune();
+        }
+    }
+
+    // Deletes expired entries and entries whose files changed; returns how many were removed
+    prune(): number {
+        this.lastPrunedAt = Date.now();
+        let removed = 0;
+        for (const entry of this.list()) {
+            if (new Date(entry.expiresAt).getTime() < this.lastPrunedAt || !this.filesUnchanged(entry)) {
+                this.delete(entry.key);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    // Files that cached entries were built from, i.e. the files worth watching
+    getFiles(): string[] {
+        return Array.from(this.getFileIndex().keys());
+    }
+
+    onDidChangeFiles(listener: () => void): { dispose(): void } {
+        this.fileListeners.push(listener);
+        return { dispose: () => { this.fileListeners = this.fileListeners.filter(other => other !== listener); } };
+    }
+
+    delete(key: string): void {
+        const entryPath = this.getEntryPath(key);
+        const entry = this.read(key);
+        if (fs.existsSync(entryPath)) {
+            fs.unlinkSync(entryPath);
+        }
+        let filesChanged = false;
+        for (const file of entry?.files || []) {
+            const keys = this.fileIndex?.get(file.path);
+            keys?.delete(key);
+            if (keys?.size === 0) {
+                this.fileIndex!.delete(file.path);
+                filesChanged = true;
+            }
+        }
+        if (filesChanged) {
+            this.fireFilesChanged();
+        }
+    }
+
+    // Drops every entry built from the given file; returns how many were removed
+    invalidateFile(filePath: string): number {
+        const keys = this.getFileIndex().get(filePath);
+        if (!keys || keys.size === 0) return 0;
+
+        const count = keys.size;
+        for (const key of Array.from(keys)) {
+            this.delete(key);
+        }
+        return count;
+    }
+
+    list(): CacheEntry[] {
+        if (!fs.existsSync(this.cacheDir)) return [];
+
+        return fs.readdirSync(this.cacheDir)
+            .filter(name => name.endsWith('.json'))
+            .map(name => this.read(path.basename(name, '.json')))
+            .filter((entry): entry is CacheEntry => entry !== null)
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    clear(): number {
+        const entries = this.list();
+        for (const entry of entries) {
+            this.delete(entry.key);
+        }
+        this.fileIndex = new Map();
+        this.fireFilesChanged();
+        return entries.length;
+    }
+
+    private read(key: string): CacheEntry | null {
+        try {
+            return JSON.parse(fs.readFileSync(this.getEntryPath(key), 'utf-8'));
+        } catch {
+            return null;
+        }
+    }
+
+    private filesUnchanged(entry: CacheEntry): boolean {
+        return entry.files.every(file => {
+            const current = this.stampFile(file.path);
+            return current !== null && current.mtimeMs === file.mtimeMs && current.size === file.size;
+        });
+    }
+
+    private stampFile(filePath: string): CachedFile | null {
+        try {
+            const stat = fs.statSync(filePath);
+            return { path: filePath, mtimeMs: stat.mtimeMs, size: stat.size };
+        } catch {
+            return null;
+        }
+    }
+
+    private getFileIndex(): Map<string, Set<string>> {
+        if (!this.fileIndex) {
+            this.fileIndex = new Map();
+            for (const entry of this.list()) {
+                for (const file of entry.files) {
+                    this.indexFile(file.path, entry.key, false);
+                }
+            }
+        }
+        return this.fileIndex;
+    }
+
+    private indexFile(filePath: string, key: string, notify: boolean = true): void {
+        const index = this.getFileIndex();
+        if (!index.has(filePath)) {
+            index.set(filePath, new Set());
+            if (notify) this.fireFilesChanged();
+        }
+        index.get(filePath)!.add(key);
+    }
+
+    private fireFilesChanged(): void {
+        this.fileListeners.forEach(listener => listener());
+    }
+
+    private getEntryPath(key: string): string {
+        return path.join(this.cacheDir, `${key}.json`);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,116 @@
+import { LLMError, classifyError } from './LLMError';
+
+export interface RetryOptions {
+    maxAttempts: number; // Including the first attempt
+    baseDelayMs: number;
+    maxDelayMs: number; // Longer Retry-After waits fail immediately instead
+    signal?: AbortSignal;
+    canRetry?: () => boolean; // e.g. false once part of a stream was shown
+    onRetry?: (error: LLMError, attempt: number, delayMs: number) => void;
+}
+
+/**
+ * Runs an operation until it succeeds or fails with a non-retryable error.
+ * Waits the server's Retry-After when given, otherwise an exponential
+ * backoff with jitter. Whatever is finally thrown is an LLMError.
+ */
+export async function withRetry<T>(operation: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await operation(attempt);
+        } catch (error) {
+            const failure = options.signal?.aborted
+                ? new LLMError('Request cancelled', 'cancelled')
+                : classifyError(error);
+
+            const delayMs = failure.retryAfterMs ?? getBackoffDelay(attempt, options);
+            const canRetry = failure.retryable &&
+                attempt < options.maxAttempts &&
+                delayMs <= options.maxDelayMs &&
+                (options.canRetry ? options.canRetry() : true);
+
+            if (!canRetry) {
+                throw failure;
+            }
+
+            options.onRetry?.(failure, attempt, delayMs);
+            await sleep(delayMs, options.signal);
+        }
+    }
+}
+
+function getBackoffDelay(attempt: number, options: RetryOptions): number {
+    const exponential = Math.min(options.baseDelayMs * Math.pow(2, attempt - 1), options.maxDelayMs);
+    // Jitter keeps concurrent callers from retrying in lockstep
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(new LLMError('Request cancelled', 'cancelled'));
+            return;
+        }
+
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(new LLMError('Request cancelled', 'cancelled'));
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Caps the number of requests in flight against one provider; callers
+ * beyond the limit wait in FIFO order.
+ */
+export class ConcurrencyLimiter {
+    private active = 0;
+    private waiting: Array<() => void> = [];
+
+    constructor(private limit: number) {}
+
+    async run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+        await this.acquire(signal);
+        try {
+            return await task();
+        } finally {
+            this.release();
+        }
+    }
+
+    private acquire(signal?: AbortSignal): Promise<void> {
+        if (this.active < this.limit) {
+            this.active++;
+            return Promise.resolve();
+        }
+
+        return new Promise((resolve, reject) => {
+            const onAbort = () => {
+                this.waiting = this.waiting.filter(waiter => waiter !== grant);
+                reject(new LLMError('Request cancelled', 'cancelled'));
+            };
+            const grant = () => {
+                signal?.removeEventListener('abort', onAbort);
+                this.active++;
+                resolve();
+            };
+
+            if (signal?.aborted) {
+                onAbort();
+                return;
+            }
+            this.waiting.push(grant);
+            signal?.addEventListener('abort', onAbort, { once: true });
+        });
+    }
+
+    private release(): void {
+        this.active--;
+        this.waiting.shift()?.();
+    }
+}
\ No newline at end of file
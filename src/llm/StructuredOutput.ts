@@ -0,0 +1,180 @@
+/**
+ * Minimal JSON Schema subset used to validate model output.
+ * Only the keywords the extension's response shapes need are supported.
+ */
+export interface JsonSchema {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean';
+    description?: string;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+    items?: JsonSchema;
+    minItems?: number;
+    minLength?: number;
+    enum?: Array<string | number>;
+}
+
+export class StructuredOutputError extends Error {
+    constructor(
+        message: string,
+        public readonly errors: string[],
+        public readonly content: string
+    ) {
+        super(`${message}:\n${errors.map(error => `- ${error}`).join('\n')}`);
+        this.name = 'StructuredOutputError';
+    }
+}
+
+/**
+ * Pulls the first JSON value out of a model response, tolerating
+ * markdown code fences and prose before or after the payload.
+ */
+export function extractJson(text: string): unknown {
+    const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i);
+    const candidates = fenced ? [fenced[1], text] : [text];
+
+    for (const candidate of candidates) {
+        const trimmed = candidate.trim();
+        try {
+            return JSON.parse(trimmed);
+        } catch {
+            // Fall through to scanning for an embedded object or array
+        }
+
+        const embedded = findBalancedJson(trimmed);
+        if (embedded !== null) {
+            try {
+                return JSON.parse(embedded);
+            } catch {
+                continue;
+            }
+        }
+    }
+
+    throw new Error('Response does not contain valid JSON');
+}
+
+export function validateSchema(value: unknown, schema: JsonSchema, path: string = '$'): string[] {
+    const errors: string[] = [];
+
+    switch (schema.type) {
+        case 'object': {
+            if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+                return [`${path}: expected object, got ${describeType(value)}`];
+            }
+            const record = value as Record<string, unknown>;
+            for (const key of schema.required || []) {
+                if (record[key] === undefined || record[key] === null) {
+                    errors.push(`${path}.${key}: required field is missing`);
+                }
+            }
+            for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+                if (record[key] !== undefined && record[key] !== null) {
+                    errors.push(...validateSchema(record[key], propertySchema, `${path}.${key}`));
+                }
+            }
+            break;
+        }
+
+        case 'array': {
+            if (!Array.isArray(value)) {
+                return [`${path}: expected array, got ${describeType(value)}`];
+            }
+            if (schema.minItems !== undefined && value.length < schema.minItems) {
+                errors.push(`${path}: expected at least ${schema.minItems} item(s), got ${value.length}`);
+            }
+            if (schema.items) {
+                value.forEach((item, index) => {
+                    errors.push(...validateSchema(item, schema.items!, `${path}[${index}]`));
+                });
+            }
+            break;
+        }
+
+        case 'string':
+            if (typeof value !== 'string') {
+                return [`${path}: expected string, got ${describeType(value)}`];
+            }
+            if (schema.minLength !== undefined && value.trim().length < schema.minLength) {
+                errors.push(`${path}: must not be empty`);
+            }
+            break;
+
+        case 'number':
+            if (typeof value !== 'number' || isNaN(value)) {
+                return [`${path}: expected number, got ${describeType(value)}`];
+            }
+            break;
+
+        case 'boolean':
+            if (typeof value !== 'boolean') {
+                return [`${path}: expected boolean, got ${describeType(value)}`];
+            }
+            break;
+    }
+
+    if (schema.enum && !schema.enum.includes(value as string | number)) {
+        errors.push(`${path}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+    }
+
+    return errors;
+}
+
+/**
+ * Extracts and validates a model response. Returns the parsed value
+ * when it matches the schema, otherwise the list of problems found.
+ */
+export function parseStructured<T>(content: string, schema: JsonSchema): { value?: T; errors: string[] } {
+    let parsed: unknown;
+    try {
+        parsed = extractJson(content);
+    } catch (error: any) {
+        return { errors: [`$: ${error.message}`] };
+    }
+
+    const errors = validateSchema(parsed, schema);
+    return errors.length > 0 ? { errors } : { value: parsed as T, errors };
+}
+
+function findBalancedJson(text: string): string | null {
+    const start = text.search(/[\[{]/);
+    if (start === -1) return null;
+
+    const open = text[start];
+    const close = open === '{' ? '}' : ']';
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+
+    for (let i = start; i < text.length; i++) {
+        const char = text[i];
+        if (inString) {
+            if (escaped) {
+                escaped = false;
+            } else if (char === '\\') {
+                escaped = true;
+            } else if (char === '"') {
+                inString = false;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inString = true;
+        } else if (char === open) {
+            depth++;
+        } else if (char === close) {
+            depth--;
+            if (depth === 0) {
+                return text.substring(start, i + 1);
+            }
+        }
+    }
+
+    return null;
+}
+
+function describeType(value: unknown): string {
+    if (value === null) return 'null';
+    if (Array.isArray(value)) return 'array';
+    return typeof value;
+}
\ No newline at end of file
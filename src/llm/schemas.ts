@@ -0,0 +1,97 @@
+import { JsonSchema } from './StructuredOutput';
+
+// Response shapes requested from the model by each feature
+
+export const questSpecificationSchema: JsonSchema = {
+    type: 'object',
+    required: ['title', 'description', 'requirements'],
+    properties: {
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string', minLength: 1 },
+        requirements: {
+            type: 'array',
+            minItems: 1,
+            items: { type: 'string', minLength: 1 }
+        }
+    }
+};
+
+export const questTaskSchema: JsonSchema = {
+    type: 'object',
+    required: ['id', 'title', 'description', 'filePaths', 'dependencies'],
+    properties: {
+        id: { type: 'string', minLength: 1 },
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string' },
+        filePaths: { type: 'array', items: { type: 'string' } },
+        dependencies: { type: 'array', items: { type: 'string' } },
+        verifyCommands: { type: 'array', items: { type: 'string', minLength: 1 } },
+        estimateHours: { type: 'number' }
+    }
+};
+
+export const questTasksSchema: JsonSchema = {
+    type: 'array',
+    minItems: 1,
+    items: questTaskSchema
+};
+
+export const questTemplateFillSchema: JsonSchema = {
+    type: 'object',
+    required: ['title', 'description', 'additionalRequirements', 'tasks'],
+    properties: {
+        title: { type: 'string', minLength: 1 },
+        description: { type: 'string', minLength: 1 },
+        additionalRequirements: { type: 'array', items: { type: 'string', minLength: 1 } },
+        tasks: {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['id', 'description', 'filePaths'],
+                properties: {
+                    id: { type: 'string', minLength: 1 },
+                    description: { type: 'string' },
+                    filePaths: { type: 'array', items: { type: 'string' } }
+                }
+            }
+        }
+    }
+};
+
+export const taskRegenerationSchema: JsonSchema = {
+    type: 'object',
+    required: ['removeTaskIds', 'tasks'],
+    properties: {
+        removeTaskIds: { type: 'array', items: { type: 'string' } },
+        tasks: { type: 'array', items: questTaskSchema }
+    }
+};
+
+export const fileChangeSchema: JsonSchema = {
+    type: 'object',
+    required: ['path', 'action'],
+    properties: {
+        path: { type: 'string', minLength: 1 },
+        action: { type: 'string', enum: ['create', 'modify', 'delete'] },
+        content: { type: 'string' }
+    }
+};
+
+export const taskChangesSchema: JsonSchema = {
+    type: 'object',
+    required: ['summary', 'changes'],
+    properties: {
+        summary: { type: 'string', minLength: 1 },
+        changes: { type: 'array', items: fileChangeSchema }
+    }
+};
+
+export const inlineChatResponseSchema: JsonSchema = {
+    type: 'object',
+    required: ['explanation', 'suggestions'],
+    properties: {
+        explanation: { type: 'string', minLength: 1 },
+        modifiedCode: { type: 'string' },
+        suggestions: { type: 'array', items: { type: 'string' } }
+    }
+};
\ No newline at end of file
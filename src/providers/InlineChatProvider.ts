@@ -1,25 +1,28 @@
 import * as vscode from 'vscode';
 import { MemorySystem } from '../core/MemorySystem';
-import { OpenAI } from 'openai';
+import { LLMService, createAbortController } from '../llm/LLMService';
+import { StructuredOutputError } from '../llm/StructuredOutput';
+import { inlineChatResponseSchema } from '../llm/schemas';
+import { describeDropped } from '../llm/PromptBuilder';
+
+interface InlineChatResponse {
+    explanation: string;
+    modifiedCode?: string;
+    suggestions: string[];
+    contextNote?: string; // Set when the prompt had to be trimmed to fit the model
+}
 
 export class InlineChatProvider {
     private memorySystem: MemorySystem;
-    private openai: OpenAI | null = null;
+    private llm: LLMService;
     private chatPanel: vscode.WebviewPanel | null = null;
     private currentEditor: vscode.TextEditor | null = null;
+    private currentPosition: vscode.Position | null = null;
+    private activeRequest: AbortController | null = null;
 
-    constructor(memorySystem: MemorySystem) {
+    constructor(memorySystem: MemorySystem, llm: LLMService) {
         this.memorySystem = memorySystem;
-        this.initializeAI();
-    }
-
-    private initializeAI(): void {
-        const config = vscode.workspace.getConfiguration('qoder');
-        const apiKey = config.get<string>('openai.apiKey');
-        
-        if (apiKey) {
-            this.openai = new OpenAI({ apiKey });
-        }
+        this.llm = llm;
     }
 
     async showInlineChat(editor: vscode.TextEditor): Promise<void> {
@@ -33,6 +36,7 @@ export class InlineChatProvider {
         
         // Show inline chat UI
         const position = selection.active;
+        this.currentPosition = position;
         const decoration = this.createInlineDecoration(position);
         
         // Get user input
@@ -47,8 +51,12 @@ export class InlineChatProvider {
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
             title: "Processing with AI...",
-            cancellable: false
-        }, async () => {
+            cancellable: true
+        }, async (progress, token) => {
+            const controller = createAbortController(token);
+            this.activeRequest?.abort();
+            this.activeRequest = controller;
+
             try {
                 // Get contextual suggestions from memory
                 const suggestions = await this.memorySystem.getContextualSuggestions({
@@ -57,16 +65,19 @@ export class InlineChatProvider {
                     currentCode: selectedText
                 });
 
-                // Generate AI response
+                // Stream the completion into the panel as it arrives
+                this.showStreamingPanel();
                 const response = await this.generateAIResponse(
                     userQuery,
                     selectedText,
                     language,
-                    suggestions
+                    suggestions,
+                    currentFile,
+                    controller.signal
                 );
 
                 // Show response and options
-                await this.showResponsePanel(response, selectedText, position);
+                await this.showResponsePanel(response, selectedText);
 
                 // Record interaction in memory
                 await this.memorySystem.recordInteraction(
@@ -80,7 +91,15 @@ export class InlineChatProvider {
                 );
 
             } catch (error) {
-                vscode.window.showErrorMessage(`Inline chat failed: ${error}`);
+                if (controller.signal.aborted) {
+                    vscode.window.showInformationMessage('Inline chat cancelled');
+                } else {
+                    vscode.window.showErrorMessage(`Inline chat failed: ${error}`);
+                }
+            } finally {
+                if (this.activeRequest === controller) {
+                    this.activeRequest = null;
+                }
             }
         });
     }
@@ -89,30 +108,37 @@ export class InlineChatProvider {
         query: string,
         code: string,
         language: string,
-        suggestions: string[]
-    ): Promise<{
-        explanation: string;
-        modifiedCode?: string;
-        suggestions: string[];
-    }> {
-        if (!this.openai) {
-            throw new Error('OpenAI not configured');
-        }
-
-        const prompt = `
+        suggestions: string[],
+        filePath: string,
+        signal?: AbortSignal
+    ): Promise<InlineChatResponse> {
+        // Selected code outranks memory suggestions when the prompt has to be trimmed
+        const { prompt, dropped } = this.llm.createPromptBuilder('inlineChat', 1500)
+            .add({
+                name: 'query',
+                required: true,
+                text: `
 You are an expert ${language} developer integrated in VS Code.
 
 User Query: "${query}"
-
-Selected Code:
-\`\`\`${language}
-${code}
-\`\`\`
-
-Context from Memory System:
-${suggestions.join('\n')}
-
-Please provide:
+`
+            })
+            .add({
+                name: 'selected code',
+                priority: 2,
+                text: code,
+                wrap: body => `Selected Code:\n\`\`\`${language}\n${body}\n\`\`\`\n`
+            })
+            .add({
+                name: 'memory suggestions',
+                priority: 1,
+                items: suggestions,
+                wrap: body => `Context from Memory System:\n${body}\n`
+            })
+            .add({
+                name: 'instructions',
+                required: true,
+                text: `Please provide:
 1. A clear explanation or answer to the user's query
 2. If applicable, provide modified code
 3. Any relevant suggestions or best practices
@@ -121,40 +147,58 @@ Format your response as JSON with:
 - explanation: string
 - modifiedCode: string (optional)
 - suggestions: array of strings
-`;
+`
+            })
+            .build();
 
-        const response = await this.openai.chat.completions.create({
-            model: 'gpt-4',
-            messages: [{ role: 'user', content: prompt }],
-            temperature: 0.7,
-            max_tokens: 1500
-        });
-
-        const content = response.choices[0]?.message?.content;
-        if (!content) throw new Error('No response from AI');
+        const contextNote = dropped.length > 0
+            ? `Context trimmed to fit the model: ${describeDropped(dropped)}`
+            : undefined;
 
         try {
-            return JSON.parse(content);
+            const response = await this.llm.completeStructured<InlineChatResponse>({
+                feature: 'inlineChat',
+                operation: 'inlineChat.response',
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0.7,
+                maxTokens: 1500,
+                signal,
+                cache: { files: [filePath] },
+                onToken: token => {
+                    this.chatPanel?.webview.postMessage({ command: 'token', text: token });
+                }
+            }, inlineChatResponseSchema);
+            return { ...response, contextNote };
         } catch (error) {
-            // Fallback if response is not valid JSON
+            if (!(error instanceof StructuredOutputError)) {
+                throw error;
+            }
+
+            // Still show what the model said, but tell the user why it isn't structured
+            vscode.window.showWarningMessage(`AI response did not match the expected format: ${error.errors.join('; ')}`);
             return {
-                explanation: content,
-                suggestions: []
+                explanation: error.content,
+                suggestions: [],
+                contextNote
             };
         }
     }
 
+    private showStreamingPanel(): void {
+        this.getChatPanel().webview.html = this.getStreamingHtml();
+    }
+
     private async showResponsePanel(
-        response: {
-            explanation: string;
-            modifiedCode?: string;
-            suggestions: string[];
-        },
-        originalCode: string,
-        position: vscode.Position
+        response: InlineChatResponse,
+        originalCode: string
     ): Promise<void> {
+        this.getChatPanel().webview.html = this.getResponseHtml(response, originalCode);
+    }
+
+    private getChatPanel(): vscode.WebviewPanel {
         if (this.chatPanel) {
-            this.chatPanel.dispose();
+            this.chatPanel.reveal(vscode.ViewColumn.Beside, true);
+            return this.chatPanel;
         }
 
         this.chatPanel = vscode.window.createWebviewPanel(
@@ -167,13 +211,23 @@ Format your response as JSON with:
             }
         );
 
-        this.chatPanel.webview.html = this.getResponseHtml(response, originalCode);
+        // Closing the panel stops a response that is still streaming
+        this.chatPanel.onDidDispose(() => {
+            this.activeRequest?.abort();
+            this.chatPanel = null;
+        });
 
         // Handle actions from webview
         this.chatPanel.webview.onDidReceiveMessage(async (message) => {
             switch (message.command) {
+                case 'cancel':
+                    this.activeRequest?.abort();
+                    break;
+
                 case 'applyCode':
-                    await this.applyCodeModification(message.code, position);
+                    if (this.currentPosition) {
+                        await this.applyCodeModification(message.code, this.currentPosition);
+                    }
                     vscode.window.showInformationMessage('Code modification applied');
                     break;
                     
@@ -195,14 +249,90 @@ Format your response as JSON with:
                     break;
             }
         });
+
+        return this.chatPanel;
+    }
+
+    private getStreamingHtml(): string {
+        return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Qoder AI Assistant</title>
+    <style>
+        body {
+            font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+            line-height: 1.6;
+            color: var(--vscode-foreground);
+            background: var(--vscode-editor-background);
+            padding: 20px;
+            margin: 0;
+        }
+        .header {
+            display: flex;
+            align-items: center;
+            justify-content: space-between;
+            margin-bottom: 20px;
+            padding-bottom: 15px;
+            border-bottom: 2px solid var(--vscode-panel-border);
+        }
+        .title {
+            font-size: 20px;
+            font-weight: 600;
+        }
+        .stream {
+            white-space: pre-wrap;
+            font-family: 'SF Mono', Consolas, monospace;
+            font-size: 13px;
+            padding: 15px;
+            background: var(--vscode-textCodeBlock-background);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 6px;
+            min-height: 80px;
+        }
+        button {
+            padding: 6px 12px;
+            font-size: 12px;
+            border: none;
+            border-radius: 4px;
+            cursor: pointer;
+            font-weight: 600;
+            background: var(--vscode-button-secondaryBackground);
+            color: var(--vscode-button-secondaryForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <span class="title">🤖 Generating response...</span>
+        <button id="stop" onclick="stop()">Stop</button>
+    </div>
+    <div class="stream" id="stream"></div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const stream = document.getElementById('stream');
+
+        window.addEventListener('message', event => {
+            if (event.data.command === 'token') {
+                stream.textContent += event.data.text;
+            }
+        });
+
+        function stop() {
+            document.getElementById('stop').disabled = true;
+            vscode.postMessage({ command: 'cancel' });
+        }
+    </script>
+</body>
+</html>
+`;
     }
 
     private getResponseHtml(
-        response: {
-            explanation: string;
-            modifiedCode?: string;
-            suggestions: string[];
-        },
+        response: InlineChatResponse,
         originalCode: string
     ): string {
         return `
@@ -368,6 +498,12 @@ Format your response as JSON with:
         </div>
     ` : ''}
 
+    ${response.contextNote ? `
+        <div class="learning-note">
+            ✂️ ${response.contextNote}
+        </div>
+    ` : ''}
+
     <div class="learning-note">
         🧠 This interaction has been recorded in your learning memory for future improvements.
     </div>
@@ -1,12 +1,23 @@
 import * as vscode from 'vscode';
 import { QuestManager, QuestSpec, QuestTask } from '../core/QuestManager';
+import { isTaskDone } from '../core/QuestPlanner';
 
-export class QuestViewProvider implements vscode.TreeDataProvider<QuestItem> {
+/**
+ * Active Quests tree. Context values encode kind, status and whether a
+ * git checkpoint exists (e.g. "task-completed-checkpointed") so menus in
+ * package.json can offer only the actions that apply.
+ */
+export class QuestViewProvider implements vscode.TreeDataProvider<QuestItem>, vscode.Disposable {
     private _onDidChangeTreeData: vscode.EventEmitter<QuestItem | undefined | null | void> = new vscode.EventEmitter<QuestItem | undefined | null | void>();
     readonly onDidChangeTreeData: vscode.Event<QuestItem | undefined | null | void> = this._onDidChangeTreeData.event;
+    private disposables: vscode.Disposable[] = [];
 
     constructor(private questManager: QuestManager) {
-        // Listen for quest changes
+        // Every change to quest state goes through QuestManager, which fires this event
+        this.disposables.push(
+            this._onDidChangeTreeData,
+            this.questManager.onDidChangeQuests(() => this.refresh())
+        );
         this.refresh();
     }
 
@@ -22,7 +33,7 @@ export class QuestViewProvider implements vscode.TreeDataProvider<QuestItem> {
         if (!element) {
             // Return root level - active quests
             return Promise.resolve(this.getQuests());
-        } else if (element.contextValue === 'quest' && element.questId) {
+        } else if (element.contextValue?.startsWith('quest') && element.questId) {
             // Return tasks for this quest
             return Promise.resolve(this.getTasksForQuest(element.questId));
         }
@@ -41,10 +52,10 @@ export class QuestViewProvider implements vscode.TreeDataProvider<QuestItem> {
                 title: 'Open Quest',
                 arguments: [quest.id]
             },
-            'quest',
+            `quest-${quest.status}${quest.tasks.some(task => task.checkpoint) ? '-checkpointed' : ''}`,
             quest.id,
             this.getQuestIcon(quest.status),
-            `${quest.tasks.filter(t => t.status === 'completed').length}/${quest.tasks.length} tasks completed`
+            `${quest.tasks.filter(isTaskDone).length}/${quest.tasks.length} tasks done`
         ));
     }
 
@@ -54,49 +65,72 @@ export class QuestViewProvider implements vscode.TreeDataProvider<QuestItem> {
         
         if (!quest) return [];
 
-        return quest.tasks.map(task => new QuestItem(
-            task.title,
-            vscode.TreeItemCollapsibleState.None,
-            {
-                command: 'qoder.openTask',
-                title: 'Open Task',
-                arguments: [questId, task.id]
-            },
-            'task',
-            task.id,
-            this.getTaskIcon(task.status),
-            `${task.status} • ${task.filePaths.length} files`
-        ));
+        // Listed in dependency order; tasks stuck on a cycle come last
+        const plan = this.questManager.getPlan(quest);
+        const ordered = new Set(plan.order);
+        const titles = new Map(quest.tasks.map(task => [task.id, task.title]));
+
+        return [...plan.order, ...quest.tasks.filter(task => !ordered.has(task))].map(task => {
+            const waitingOn = plan.blocked.get(task.id);
+            const item = new QuestItem(
+                task.title,
+                vscode.TreeItemCollapsibleState.None,
+                {
+                    command: 'qoder.openTask',
+                    title: 'Open Task',
+                    arguments: [questId, task.id]
+                },
+                `task-${task.status}${task.checkpoint ? '-checkpointed' : ''}`,
+                questId,
+                this.getTaskIcon(task.status),
+                waitingOn && task.status === 'pending'
+                    ? `blocked • waiting on ${waitingOn.map(id => titles.get(id) || id).join(', ')}`
+                    : `${task.status} • ${task.filePaths.length} files`
+            );
+
+            item.taskId = task.id;
+            if (waitingOn && task.status === 'pending') {
+                item.iconPath = new vscode.ThemeIcon('lock', new vscode.ThemeColor('disabledForeground'));
+            }
+            return item;
+        });
     }
 
-    private getQuestIcon(status: string): string {
+    private getQuestIcon(status: QuestSpec['status']): vscode.ThemeIcon {
         switch (status) {
-            case 'draft': return '📝';
-            case 'approved': return '✅';
-            case 'in-progress': return '🚀';
-            case 'completed': return '🎉';
-            default: return '📋';
+            case 'draft': return new vscode.ThemeIcon('edit');
+            case 'approved': return new vscode.ThemeIcon('pass');
+            case 'in-progress': return new vscode.ThemeIcon('rocket', new vscode.ThemeColor('charts.blue'));
+            case 'completed': return new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed'));
+            default: return new vscode.ThemeIcon('symbol-misc');
         }
     }
 
-    private getTaskIcon(status: string): string {
+    private getTaskIcon(status: QuestTask['status']): vscode.ThemeIcon {
         switch (status) {
-            case 'pending': return '⏳';
-            case 'in-progress': return '🔄';
-            case 'completed': return '✅';
-            default: return '📌';
+            case 'pending': return new vscode.ThemeIcon('circle-large-outline');
+            case 'in-progress': return new vscode.ThemeIcon('sync', new vscode.ThemeColor('charts.blue'));
+            case 'completed': return new vscode.ThemeIcon('pass-filled', new vscode.ThemeColor('testing.iconPassed'));
+            case 'skipped': return new vscode.ThemeIcon('debug-step-over', new vscode.ThemeColor('disabledForeground'));
+            default: return new vscode.ThemeIcon('symbol-misc');
         }
     }
+
+    dispose(): void {
+        this.disposables.forEach(disposable => disposable.dispose());
+    }
 }
 
 export class QuestItem extends vscode.TreeItem {
+    taskId?: string; // Set on task items; questId is the quest the task belongs to
+
     constructor(
         public readonly label: string,
         public readonly collapsibleState: vscode.TreeItemCollapsibleState,
         public readonly command?: vscode.Command,
         public readonly contextValue?: string,
         public readonly questId?: string,
-        public readonly icon?: string,
+        public readonly icon?: vscode.ThemeIcon,
         public readonly description?: string
     ) {
         super(label, collapsibleState);
@@ -107,8 +141,7 @@ export class QuestItem extends vscode.TreeItem {
         }
         
         if (this.icon) {
-            this.iconPath = new vscode.ThemeIcon('symbol-misc');
-            // VS Code doesn't support emoji icons directly, using theme icon instead
+            this.iconPath = this.icon;
         }
     }
 }
\ No newline at end of file
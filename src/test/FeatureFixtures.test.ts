@@ -0,0 +1,95 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { vscodeStub } from './vscodeStub';
+import { LLMService } from '../llm/LLMService';
+import { QuestManager } from '../core/QuestManager';
+import { InlineChatProvider } from '../providers/InlineChatProvider';
+import { ContextSearchEngine, SearchContext } from '../core/ContextSearchEngine';
+import { MemorySystem } from '../core/MemorySystem';
+import { KeyManager } from '../core/KeyManager';
+
+// Recorded with qoder.ai.fixtures.mode set to "record"; tests run from out/test, the fixtures stay in src
+const FIXTURE_DIR = path.join(__dirname, '..', '..', 'src', 'test', 'fixtures', 'llm');
+
+const settings: Record<string, unknown> = {
+    'ai.provider': 'fixture',
+    'ai.fixtures.path': FIXTURE_DIR,
+    'ai.fixtures.mode': 'replay',
+    'ai.retry.maxAttempts': 1
+};
+
+// QuestManager needs a full extension context; the generation methods only use the model and the quest list
+function createQuestManager(llm: LLMService): QuestManager {
+    return Object.assign(Object.create(QuestManager.prototype), { llm, activeQuests: new Map() });
+}
+
+describe('features on recorded fixtures', () => {
+    const getConfiguration = vscodeStub.workspace.getConfiguration;
+    const llm = new LLMService();
+
+    before(() => {
+        vscodeStub.workspace.getConfiguration = () => ({
+            get: (key: string, defaultValue?: unknown) => key in settings ? settings[key] : defaultValue
+        });
+    });
+    after(() => {
+        vscodeStub.workspace.getConfiguration = getConfiguration;
+    });
+
+    it('generates a quest specification and tasks, repairing invalid task output', async () => {
+        const manager = createQuestManager(llm);
+        const spec = await manager['generateSpecification']('Add a dark mode toggle to the settings page', null, '');
+        assert.equal(spec.title, 'Dark Mode Toggle');
+        assert.ok(spec.requirements.length > 0);
+
+        // The recorded task list misses filePaths on one task; the recorded repair fixes it
+        const tasks = await manager['generateTasks'](spec, null, '');
+        assert.deepEqual(tasks.map(task => task.id), ['task_1', 'task_2', 'task_3']);
+        assert.ok(tasks.every(task => task.status === 'pending' && Array.isArray(task.filePaths)));
+        assert.equal(tasks[1].estimateHours, 2.5);
+    });
+
+    it('answers inline chat with structured output', async () => {
+        const provider = new InlineChatProvider({} as MemorySystem, llm);
+        const response = await provider['generateAIResponse'](
+            'Why does this return undefined?',
+            'function total(items) { items.reduce((sum, item) => sum + item.price, 0); }',
+            'javascript',
+            [],
+            '/workspace/src/cart.js'
+        );
+        assert.match(response.explanation, /return/);
+        assert.match(response.modifiedCode || '', /return items\.reduce/);
+        assert.equal(response.contextNote, undefined);
+    });
+
+    it('adds a Codex enhancement to search results', async () => {
+        const engine = new ContextSearchEngine({} as vscode.ExtensionContext, llm, {} as KeyManager);
+        const context: SearchContext = {
+            query: 'debounce input handler',
+            workspacePath: '/workspace',
+            scope: 'workspace',
+            includeExternal: false,
+            useSemanticSearch: true
+        };
+        const result = await engine['getCodexEnhancement'](context, []);
+        assert.equal(result?.source, 'codex');
+        assert.match(result?.content || '', /function debounce/);
+    });
+
+    it('fails clearly when a prompt has no recorded fixture', async () => {
+        const manager = createQuestManager(llm);
+        await assert.rejects(
+            manager['generateSpecification']('A request that was never recorded', null, ''),
+            /No fixture recorded for quest\.specification/
+        );
+
+        const provider = new InlineChatProvider({} as MemorySystem, llm);
+        await assert.rejects(
+            provider['generateAIResponse']('Never recorded', 'x', 'javascript', [], '/workspace/x.js'),
+            /No fixture recorded for inlineChat\.response/
+        );
+    });
+});
\ No newline at end of file
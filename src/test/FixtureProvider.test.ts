@@ -0,0 +1,54 @@
+import { after, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { FixtureProvider } from '../llm/FixtureProvider';
+import { MockProvider } from '../llm/MockProvider';
+import { CompletionRequest } from '../llm/LLMProvider';
+
+function createRequest(content: string, onToken?: (token: string) => void): CompletionRequest {
+    return {
+        feature: 'quest',
+        operation: 'quest.specification',
+        messages: [{ role: 'user', content }],
+        onToken
+    };
+}
+
+describe('FixtureProvider', () => {
+    const fixtureDir = fs.mkdtempSync(path.join(os.tmpdir(), 'qoder-fixtures-'));
+    after(() => fs.rmSync(fixtureDir, { recursive: true, force: true }));
+
+    it('records responses and replays them offline', async () => {
+        const recorder = new MockProvider();
+        const recording = await new FixtureProvider(fixtureDir, 'record', recorder).complete(createRequest('Build a login page'));
+        assert.equal(fs.readdirSync(fixtureDir).length, 1);
+
+        const tokens: string[] = [];
+        const replayed = await new FixtureProvider(fixtureDir, 'replay').complete(createRequest('Build a login page', token => tokens.push(token)));
+
+        assert.equal(replayed.content, recording.content);
+        assert.equal(replayed.provider, 'fixture');
+        assert.equal(tokens.join(''), recording.content, 'replay streams the recorded content');
+    });
+
+    it('keys fixtures by the prompt only', () => {
+        const a = FixtureProvider.getFixtureKey([{ role: 'user', content: 'same' }]);
+        const b = FixtureProvider.getFixtureKey([{ role: 'user', content: 'same' }]);
+        const c = FixtureProvider.getFixtureKey([{ role: 'user', content: 'different' }]);
+        assert.equal(a, b);
+        assert.notEqual(a, c);
+    });
+
+    it('fails with a hint when a prompt was never recorded', async () => {
+        await assert.rejects(
+            new FixtureProvider(fixtureDir, 'replay').complete(createRequest('Never recorded')),
+            /No fixture recorded for quest\.specification.*"record"/
+        );
+    });
+
+    it('refuses record mode without a provider to record from', () => {
+        assert.throws(() => new FixtureProvider(fixtureDir, 'record'), /requires a provider/);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,124 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { vscodeStub } from './vscodeStub';
+import { exportQuest, exportQuestMarkdown, questToRows } from '../core/QuestExport';
+import { QuestManager, QuestSpec, QuestTask } from '../core/QuestManager';
+
+const TITLES = ['Parse a, b and c', 'Say "hello"', 'First line\nsecond line', 'Keep | pipes | intact'];
+
+function createTask(id: string, title: string): QuestTask {
+    return { id, title, description: '', status: 'pending', filePaths: [], dependencies: [], createdAt: new Date('2024-05-01T10:00:00.000Z') };
+}
+
+function createQuest(): QuestSpec {
+    return {
+        id: 'quest-1',
+        title: 'Export, "quoted"',
+        description: '',
+        requirements: ['Handles\nmulti-line text'],
+        tasks: TITLES.map((title, index) => createTask(`task_${index + 1}`, title)),
+        status: 'approved',
+        createdAt: new Date('2024-05-01T09:00:00.000Z')
+    };
+}
+
+// RFC 4180: quoted fields may hold commas, doubled quotes and line breaks
+function parseCsv(text: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                field += char;
+            }
+        } else if (char === '"') {
+            quoted = true;
+        } else if (char === ',') {
+            row.push(field);
+            field = '';
+        } else if (char === '\r' && text[i + 1] === '\n') {
+            rows.push([...row, field]);
+            row = [];
+            field = '';
+            i++;
+        } else {
+            field += char;
+        }
+    }
+    return rows;
+}
+
+describe('exportQuest', () => {
+    it('quotes commas, quotes and line breaks in CSV fields', () => {
+        const quest = createQuest();
+        const csv = exportQuest(quest, 'csv');
+        assert.ok(csv.includes('"Say ""hello"""'));
+        assert.ok(csv.includes('"First line\nsecond line"'));
+        assert.ok(csv.includes(',Keep | pipes | intact,'));
+
+        const [header, ...rows] = parseCsv(csv);
+        assert.equal(header[4], 'Task');
+        assert.deepEqual(rows, questToRows(quest));
+        assert.deepEqual(rows.map(row => row[4]), TITLES);
+        assert.ok(rows.every(row => row[1] === 'Export, "quoted"'));
+    });
+
+    it('keeps every task on one Markdown checklist line', () => {
+        const lines = exportQuestMarkdown(createQuest()).split('\n');
+        assert.equal(lines[0], '# Export, "quoted"');
+        assert.ok(lines.includes('- Handles multi-line text'));
+        const tasks = lines.slice(lines.indexOf('## Tasks') + 2, -1).filter(Boolean);
+        assert.deepEqual(tasks, [
+            '- [ ] Parse a, b and c',
+            '- [ ] Say "hello"',
+            '- [ ] First line second line',
+            '- [ ] Keep | pipes | intact'
+        ]);
+    });
+});
+
+describe('exportToSpreadsheet', () => {
+    const settings: Record<string, unknown> = { 'dd.spreadsheetId': 'sheet-1' };
+    const getConfiguration = vscodeStub.workspace.getConfiguration;
+    const showInputBox = vscodeStub.window.showInputBox;
+    const appended: string[][] = [];
+
+    // Fails on the third row, like ddsheets losing its connection halfway
+    const dd = {
+        isSpreadsheetAvailable: () => true,
+        updateSpreadsheet: async (_spreadsheetId: string, row: string[]) => {
+            if (appended.length === 2) throw new Error('Spreadsheet update failed: timeout');
+            appended.push(row);
+        }
+    };
+
+    before(() => {
+        vscodeStub.workspace.getConfiguration = () => ({
+            get: (key: string, defaultValue?: unknown) => key in settings ? settings[key] : defaultValue
+        });
+        vscodeStub.window.showInputBox = async () => 'sheet-1';
+        vscodeStub.messages.length = 0;
+    });
+    after(() => {
+        vscodeStub.workspace.getConfiguration = getConfiguration;
+        vscodeStub.window.showInputBox = showInputBox;
+    });
+
+    it('stops at the first failed row and reports how many were appended', async () => {
+        const manager: QuestManager = Object.assign(Object.create(QuestManager.prototype), { dd });
+        await manager['exportToSpreadsheet'](createQuest());
+
+        assert.deepEqual(appended.map(row => row[3]), ['task_1', 'task_2']);
+        assert.deepEqual(vscodeStub.messages, [
+            'Failed to export "Export, "quoted"" after 2 of 4 row(s) were appended to spreadsheet sheet-1: Error: Spreadsheet update failed: timeout'
+        ]);
+    });
+});
\ No newline at end of file
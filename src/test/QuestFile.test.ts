@@ -0,0 +1,98 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { parseQuest, serializeQuest } from '../core/QuestFile';
+import { QuestSpec, QuestTask } from '../core/QuestManager';
+
+function createTask(overrides: Partial<QuestTask>): QuestTask {
+    return {
+        id: 'task_1',
+        title: 'Task',
+        description: '',
+        status: 'pending',
+        filePaths: [],
+        dependencies: [],
+        verifyCommands: [],
+        createdAt: new Date('2024-05-01T10:00:00.000Z'),
+        ...overrides
+    };
+}
+
+function createQuest(overrides: Partial<QuestSpec>): QuestSpec {
+    return {
+        id: 'quest_1',
+        title: 'Quest',
+        description: 'Description',
+        requirements: [],
+        tasks: [],
+        status: 'draft',
+        createdAt: new Date('2024-05-01T09:00:00.000Z'),
+        ...overrides
+    };
+}
+
+// Dates and omitted optional fields compare the same once both sides go through JSON
+function roundTrip(quest: QuestSpec): void {
+    const parsed = parseQuest(serializeQuest(quest), 'fallback');
+    assert.deepEqual(JSON.parse(JSON.stringify(parsed)), JSON.parse(JSON.stringify(quest)));
+}
+
+describe('QuestFile', () => {
+    it('round-trips multi-line text', () => {
+        roundTrip(createQuest({
+            title: 'Checkout\nsecond line',
+            description: 'First paragraph.\n\nSecond paragraph with `code`.',
+            requirements: ['Works offline\nand online'],
+            tasks: [createTask({ title: 'Write\nthe parser', description: 'Line one\nLine two\n' })]
+        }));
+    });
+
+    it('round-trips quotes, colons and hashes in values', () => {
+        roundTrip(createQuest({
+            title: 'Fix "login": it fails #2',
+            requirements: ['key: value', '\'single\' and "double" quotes', '- looks like a list item', 'true'],
+            tasks: [createTask({
+                title: 'Parse "a: b" pairs',
+                description: 'Run `npm test -- --grep "x: y"`',
+                filePaths: ['src/a, b.ts', 'docs/#notes.md'],
+                dependencies: [],
+                verifyCommands: ['npm run lint -- --fix', 'echo "done: ok"']
+            })]
+        }));
+    });
+
+    it('round-trips empty lists, empty requirements and an empty title', () => {
+        roundTrip(createQuest({ title: '', description: '', requirements: [], tasks: [] }));
+        roundTrip(createQuest({ requirements: ['', 'Second'], tasks: [createTask({ filePaths: [], dependencies: [] })] }));
+    });
+
+    it('keeps the heading as the title when the file has no title field', () => {
+        const quest = parseQuest('---\nid: q\nstatus: approved\n---\n\n# Hand written\n\nBody text\n', 'fallback');
+        assert.equal(quest.title, 'Hand written');
+        assert.equal(quest.description, 'Body text');
+        assert.equal(quest.status, 'approved');
+    });
+
+    it('ignores unknown keys', () => {
+        const quest = parseQuest([
+            '---',
+            'id: q',
+            'owner: someone',
+            'labels: [ui, "needs: review"]',
+            'extra:',
+            '  nested: true',
+            'tasks:',
+            '  - id: t1',
+            '    title: First',
+            '    reviewer: someone else',
+            '---',
+            '',
+            '# Title',
+            ''
+        ].join('\n'), 'fallback');
+
+        assert.equal(quest.id, 'q');
+        assert.equal(quest.title, 'Title');
+        assert.deepEqual(quest.tasks.map(task => [task.id, task.title, task.status]), [['t1', 'First', 'pending']]);
+        assert.equal('owner' in quest, false);
+    });
+});
\ No newline at end of file
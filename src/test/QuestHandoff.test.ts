@@ -0,0 +1,90 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { vscodeStub } from './vscodeStub';
+import { QuestHandoff } from '../core/QuestHandoff';
+import { QuestSpec, QuestTask } from '../core/QuestManager';
+import { DDSystemIntegration } from '../integration/DDSystemIntegration';
+import { KeyManager } from '../core/KeyManager';
+
+// Reports results the way cxmarathon does, including one for a task outside the job
+const RUNNER = `#!/bin/sh
+echo '::task-result:: {"taskId":"done","status":"in-progress"}'
+echo 'working on done'
+echo '::task-result:: {"taskId":"done","status":"completed"}'
+echo '::task-result:: {"taskId":"broken","status":"in-progress"}'
+echo '::task-result:: {"taskId":"broken","status":"failed","summary":"tests fail"}'
+echo '::task-result:: {"taskId":"unfinished","status":"in-progress"}'
+echo '::task-result:: {"taskId":"outside","status":"completed"}'
+printf 'not a result'
+`;
+
+function createTask(id: string): QuestTask {
+    return { id, title: `Task ${id}`, description: '', status: 'pending', filePaths: [], dependencies: [], createdAt: new Date() };
+}
+
+function createQuest(): QuestSpec {
+    return {
+        id: 'quest-1',
+        title: 'Marathon',
+        description: '',
+        requirements: [],
+        tasks: ['done', 'broken', 'unfinished', 'outside'].map(createTask),
+        status: 'approved',
+        createdAt: new Date()
+    };
+}
+
+describe('QuestHandoff', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'qoder-handoff-'));
+    const getConfiguration = vscodeStub.workspace.getConfiguration;
+    let dd: DDSystemIntegration;
+
+    before(() => {
+        fs.mkdirSync(path.join(root, 'dd', 'bin'), { recursive: true });
+        fs.writeFileSync(path.join(root, 'dd', 'bin', 'cxmarathon'), RUNNER, { mode: 0o755 });
+        vscodeStub.workspace.workspaceFolders = [{ uri: { fsPath: root } }];
+        vscodeStub.workspace.getConfiguration = () => ({
+            get: (key: string, defaultValue?: unknown) => key === 'dd.systemPath' ? path.join(root, 'dd') : defaultValue
+        });
+        dd = new DDSystemIntegration({} as KeyManager);
+    });
+    beforeEach(() => {
+        vscodeStub.messages.length = 0;
+    });
+    after(() => {
+        vscodeStub.workspace.workspaceFolders = undefined;
+        vscodeStub.workspace.getConfiguration = getConfiguration;
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('applies the results cxmarathon reports for the tasks in the job', async () => {
+        const quest = createQuest();
+        const handoff = new QuestHandoff(dd, async () => undefined, path.join(root, 'logs'));
+        await handoff.dispatch(quest, quest.tasks.slice(0, 3));
+
+        const statuses = Object.fromEntries(quest.tasks.map(task => [task.id, task.status]));
+        assert.deepEqual(statuses, { done: 'completed', broken: 'pending', unfinished: 'pending', outside: 'pending' });
+        assert.equal(quest.tasks[2].attempts, 1);
+        assert.equal(quest.tasks[3].attempts, undefined);
+        assert.equal(quest.status, 'in-progress');
+        assert.ok(vscodeStub.messages.includes('Codex could not finish "Task broken": tests fail'));
+        assert.ok(vscodeStub.messages.some(message => message.includes('1 completed, 0 skipped, 1 failed, 1 not finished')));
+        assert.match(fs.readFileSync(handoff.getLogPath(quest.id), 'utf-8'), /working on done/);
+        assert.equal(handoff.isRunning(quest.id), false);
+    });
+
+    it('leaves the quest as it was when the job file cannot be written', async () => {
+        const quest = createQuest();
+        const blocker = path.join(root, 'not-a-folder');
+        fs.writeFileSync(blocker, '');
+        const handoff = new QuestHandoff(dd, async () => undefined, path.join(blocker, 'logs'));
+        await handoff.dispatch(quest, quest.tasks);
+
+        assert.equal(quest.status, 'approved');
+        assert.ok(quest.tasks.every(task => task.status === 'pending'));
+        assert.ok(vscodeStub.messages.some(message => message.startsWith('Failed to write the Codex marathon job')));
+    });
+});
\ No newline at end of file
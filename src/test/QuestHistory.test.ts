@@ -0,0 +1,71 @@
+import { after, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { QuestHistory, QuestSnapshot } from '../core/QuestHistory';
+import { QuestSpec } from '../core/QuestManager';
+
+function createQuest(overrides: Partial<QuestSpec> = {}): QuestSpec {
+    return {
+        id: 'quest-1',
+        title: 'Checkout',
+        description: 'Let users pay',
+        requirements: ['Cards', 'Invoices'],
+        tasks: [{ id: 'task_1', title: 'Form', description: '', status: 'pending', filePaths: ['src/form.ts'], dependencies: [], createdAt: new Date() }],
+        status: 'draft',
+        createdAt: new Date(),
+        ...overrides
+    };
+}
+
+const snapshot = (overrides: Partial<QuestSpec> = {}): QuestSnapshot => QuestHistory.snapshot(createQuest(overrides));
+const changes = (history: QuestHistory, from: QuestSnapshot, to: QuestSnapshot) =>
+    history.diff(from, to).filter(row => row.type !== 'same');
+
+describe('QuestHistory', () => {
+    const folder = fs.mkdtempSync(path.join(os.tmpdir(), 'qoder-history-'));
+    const history = new QuestHistory(() => folder);
+
+    after(() => {
+        fs.rmSync(folder, { recursive: true, force: true });
+    });
+
+    it('shows an inserted line as added', () => {
+        const rows = changes(history, snapshot(), snapshot({ requirements: ['Cards', 'Wallets', 'Invoices'] }));
+        assert.deepEqual(rows, [{ type: 'added', left: undefined, right: '  - Wallets' }]);
+    });
+
+    it('shows a deleted line as removed', () => {
+        const rows = changes(history, snapshot(), snapshot({ requirements: ['Invoices'] }));
+        assert.deepEqual(rows, [{ type: 'removed', left: '  - Cards', right: undefined }]);
+    });
+
+    it('pairs a removed and an added line as changed', () => {
+        const rows = changes(history, snapshot(), snapshot({ title: 'Payments', description: 'Let users pay\nin any currency' }));
+        assert.deepEqual(rows, [
+            { type: 'changed', left: 'Title: Checkout', right: 'Title: Payments' },
+            { type: 'added', left: undefined, right: '  in any currency' }
+        ]);
+    });
+
+    it('keeps every line of identical snapshots', () => {
+        const rows = history.diff(snapshot(), snapshot());
+        assert.ok(rows.length > 0);
+        assert.ok(rows.every(row => row.type === 'same' && row.left === row.right));
+    });
+
+    it('records a revision only when the specification changes', () => {
+        const first = history.record(createQuest(), 'ai', 'mock', 'Generated');
+        assert.equal(first?.number, 1);
+
+        assert.equal(history.record(createQuest(), 'manual', 'someone', 'Saved again'), null);
+        // Execution state is not part of a revision
+        assert.equal(history.record(createQuest({ status: 'in-progress' }), 'manual', 'someone', 'Started'), null);
+        history.ensureBaseline(createQuest());
+
+        const second = history.record(createQuest({ title: 'Payments' }), 'manual', 'someone', 'Renamed');
+        assert.equal(second?.number, 2);
+        assert.deepEqual(history.getRevisions('quest-1').map(revision => [revision.number, revision.summary]), [[1, 'Generated'], [2, 'Renamed']]);
+    });
+});
\ No newline at end of file
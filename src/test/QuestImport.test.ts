@@ -0,0 +1,55 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { vscodeStub } from './vscodeStub';
+import { scanTodoComments } from '../core/QuestImport';
+
+const FILES: Record<string, string> = {
+    'src/app.ts': [
+        'const label = "TODO: not a comment";',
+        'const url = \'http://example.com/TODO\';',
+        '// TODO: retry failed requests',
+        'run(); /* FIXME(sam): leaks the handle */'
+    ].join('\n'),
+    'scripts/build.py': [
+        'message = "FIXME later"',
+        '# TODO - cache the wheels'
+    ].join('\n'),
+    'notes.txt': '// TODO: plain text is not scanned',
+    'README.md': '<!-- TODO: Markdown is not scanned -->'
+};
+
+// Lists the files under root whose extension is in the {a,b,c} group of the include glob
+function findFiles(root: string, include: string): Array<{ fsPath: string }> {
+    const extensions = /\{([^}]*)\}/.exec(include)?.[1].split(',') || [];
+    return fs.readdirSync(root, { recursive: true, encoding: 'utf-8' })
+        .filter(file => extensions.includes(path.extname(file).slice(1)))
+        .map(file => ({ fsPath: path.join(root, file) }));
+}
+
+describe('scanTodoComments', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'qoder-import-'));
+    const stubFindFiles = vscodeStub.workspace.findFiles;
+
+    before(() => {
+        for (const [file, content] of Object.entries(FILES)) {
+            fs.mkdirSync(path.dirname(path.join(root, file)), { recursive: true });
+            fs.writeFileSync(path.join(root, file), content, 'utf-8');
+        }
+        vscodeStub.workspace.findFiles = async (include: string) => findFiles(root, include);
+    });
+    after(() => {
+        vscodeStub.workspace.findFiles = stubFindFiles;
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    it('finds TODO and FIXME comments in source files only', async () => {
+        assert.deepEqual(await scanTodoComments(root), [
+            { tag: 'TODO', text: 'cache the wheels', filePath: 'scripts/build.py', line: 2 },
+            { tag: 'TODO', text: 'retry failed requests', filePath: 'src/app.ts', line: 3 },
+            { tag: 'FIXME', text: 'leaks the handle', filePath: 'src/app.ts', line: 4 }
+        ]);
+    });
+});
\ No newline at end of file
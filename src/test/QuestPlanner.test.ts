@@ -0,0 +1,59 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { QuestPlanner } from '../core/QuestPlanner';
+import { QuestTask } from '../core/QuestManager';
+
+function createTask(id: string, dependencies: string[] = [], status: QuestTask['status'] = 'pending'): QuestTask {
+    return { id, title: id.toUpperCase(), description: '', status, filePaths: [], dependencies, createdAt: new Date() };
+}
+
+const ids = (tasks: QuestTask[]) => tasks.map(task => task.id);
+
+describe('QuestPlanner', () => {
+    const planner = new QuestPlanner();
+
+    it('orders a linear chain and unblocks one task at a time', () => {
+        const plan = planner.plan([createTask('c', ['b']), createTask('b', ['a']), createTask('a')]);
+        assert.deepEqual(ids(plan.order), ['a', 'b', 'c']);
+        assert.deepEqual(ids(plan.unblocked), ['a']);
+        assert.deepEqual([...plan.blocked], [['b', ['a']], ['c', ['b']]]);
+        assert.deepEqual(plan.issues, []);
+    });
+
+    it('orders a diamond and waits for both branches', () => {
+        const plan = planner.plan([
+            createTask('top', [], 'completed'),
+            createTask('left', ['top'], 'completed'),
+            createTask('right', ['top']),
+            createTask('bottom', ['left', 'right'])
+        ]);
+
+        assert.deepEqual(ids(plan.order), ['top', 'left', 'right', 'bottom']);
+        assert.deepEqual(ids(plan.unblocked), ['right']);
+        assert.deepEqual(plan.blocked.get('bottom'), ['right']);
+    });
+
+    it('reports a cycle and blocks the tasks on it and after it', () => {
+        const plan = planner.plan([createTask('a', ['c']), createTask('b', ['a']), createTask('c', ['b']), createTask('d', ['c']), createTask('e')]);
+
+        assert.deepEqual(ids(plan.order), ['e']);
+        assert.deepEqual(ids(plan.unblocked), ['e']);
+        assert.deepEqual([...plan.blocked.keys()].sort(), ['a', 'b', 'c', 'd']);
+        assert.equal(plan.issues.length, 1);
+        assert.equal(plan.issues[0].type, 'cycle');
+        assert.deepEqual([...plan.issues[0].taskIds].sort(), ['a', 'b', 'c']);
+        assert.match(plan.issues[0].message, /^Circular dependency: [ABC] → [ABC] → [ABC] → [ABC]$/);
+    });
+
+    it('reports a dependency on an unknown task without blocking on it', () => {
+        const plan = planner.plan([createTask('a', ['missing']), createTask('b', ['a'])]);
+
+        assert.deepEqual(ids(plan.order), ['a', 'b']);
+        assert.deepEqual(ids(plan.unblocked), ['a']);
+        assert.deepEqual(plan.issues, [{
+            type: 'unknown-dependency',
+            taskIds: ['a'],
+            message: 'Task "A" depends on unknown task "missing"'
+        }]);
+    });
+});
\ No newline at end of file
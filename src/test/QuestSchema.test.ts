@@ -0,0 +1,39 @@
+import { describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { deserializeQuestRecord, migrateStoredQuests, QUEST_SCHEMA_VERSION, QuestValidationError } from '../core/QuestSchema';
+
+describe('QuestSchema', () => {
+    it('migrates version 1 records with numeric task ids and dependencies', () => {
+        const v1 = {
+            'quest-1': {
+                title: 'Old quest',
+                description: '',
+                requirements: ['Keep working'],
+                status: 'approved',
+                createdAt: '2024-01-01T00:00:00.000Z',
+                tasks: [
+                    { id: 1, title: 'First', description: '', status: 'completed', filePaths: [], dependencies: [], createdAt: '2024-01-01T00:00:00.000Z' },
+                    { id: 2, title: 'Second', description: '', status: 'pending', filePaths: [], dependencies: [1], createdAt: '2024-01-01T00:00:00.000Z' }
+                ]
+            }
+        };
+
+        const migrated = migrateStoredQuests(v1, 1);
+        assert.equal(migrated.schemaVersion, QUEST_SCHEMA_VERSION);
+        const quest = deserializeQuestRecord(migrated.quests[0]);
+        assert.equal(quest.id, 'quest-1');
+        assert.deepEqual(quest.tasks.map(task => task.id), ['1', '2']);
+        assert.deepEqual(quest.tasks[1].dependencies, ['1']);
+    });
+
+    it('still rejects numeric task ids in current records', () => {
+        const record = {
+            id: 'quest-2',
+            title: 'New quest',
+            status: 'draft',
+            createdAt: '2024-01-01T00:00:00.000Z',
+            tasks: [{ id: 1, title: 'First', status: 'pending', createdAt: '2024-01-01T00:00:00.000Z' }]
+        };
+        assert.throws(() => deserializeQuestRecord(record), QuestValidationError);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,53 @@
+import { after, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ResponseCache } from '../llm/ResponseCache';
+import { CompletionRequest, CompletionResult } from '../llm/LLMProvider';
+
+const request: CompletionRequest = { feature: 'inlineChat', operation: 'test', messages: [{ role: 'user', content: 'Explain' }] };
+const result: CompletionResult = { content: 'Answer', model: 'mock', provider: 'mock' };
+
+describe('ResponseCache', () => {
+    const root = fs.mkdtempSync(path.join(os.tmpdir(), 'qoder-cache-'));
+    after(() => fs.rmSync(root, { recursive: true, force: true }));
+
+    it('prunes expired entries when loaded', () => {
+        const cacheDir = path.join(root, 'expired');
+        const cache = new ResponseCache(cacheDir);
+        cache.set('old', request, result, -1000);
+        cache.set('fresh', request, result, 60000);
+        assert.equal(cache.list().length, 2);
+
+        const reloaded = new ResponseCache(cacheDir);
+        assert.deepEqual(reloaded.list().map(entry => entry.key), ['fresh']);
+    });
+
+    it('reports the files its entries depend on and drops entries when one changes', () => {
+        const source = path.join(root, 'source.ts');
+        fs.writeFileSync(source, 'const a = 1;');
+        const cache = new ResponseCache(path.join(root, 'files'));
+        let notifications = 0;
+        cache.onDidChangeFiles(() => notifications++);
+
+        cache.set('entry', request, result, 60000, [source]);
+        assert.deepEqual(cache.getFiles(), [source]);
+        assert.ok(cache.get('entry'));
+
+        assert.equal(cache.invalidateFile(source), 1);
+        assert.equal(cache.get('entry'), null);
+        assert.deepEqual(cache.getFiles(), []);
+        assert.equal(notifications, 2, 'once when the file was added, once when it was dropped');
+    });
+
+    it('prunes entries whose files changed while nothing was watching', () => {
+        const source = path.join(root, 'edited.ts');
+        fs.writeFileSync(source, 'const a = 1;');
+        const cacheDir = path.join(root, 'edited');
+        new ResponseCache(cacheDir).set('entry', request, result, 60000, [source]);
+
+        fs.writeFileSync(source, 'const a = 2; // edited');
+        assert.equal(new ResponseCache(cacheDir).list().length, 0);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { ConcurrencyLimiter, RetryOptions, withRetry } from '../llm/RetryPolicy';
+import { LLMError } from '../llm/LLMError';
+import { OpenAIProvider } from '../llm/OpenAIProvider';
+
+const FAST: RetryOptions = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 50 };
+
+function httpError(status: number, headers: Record<string, string> = {}): Error {
+    return Object.assign(new Error(`HTTP ${status}`), { status, headers });
+}
+
+describe('withRetry', () => {
+    it('retries retryable errors with growing backoff until it succeeds', async () => {
+        const delays: number[] = [];
+        const result = await withRetry(async attempt => {
+            if (attempt < 3) throw httpError(503);
+            return 'done';
+        }, { ...FAST, baseDelayMs: 8, onRetry: (_error, _attempt, delayMs) => delays.push(delayMs) });
+
+        assert.equal(result, 'done');
+        assert.equal(delays.length, 2);
+        // Jitter keeps each delay between half and all of the exponential step
+        assert.ok(delays[0] >= 4 && delays[0] <= 8, `first delay ${delays[0]}`);
+        assert.ok(delays[1] >= 8 && delays[1] <= 16, `second delay ${delays[1]}`);
+    });
+
+    it('waits the Retry-After the server asks for', async () => {
+        const delays: number[] = [];
+        await withRetry(async attempt => {
+            if (attempt === 1) throw httpError(429, { 'retry-after-ms': '20' });
+            return 'done';
+        }, { ...FAST, onRetry: (_error, _attempt, delayMs) => delays.push(delayMs) });
+
+        assert.deepEqual(delays, [20]);
+    });
+
+    it('gives up after maxAttempts with a categorised error', async () => {
+        let attempts = 0;
+        await assert.rejects(withRetry(async () => {
+            attempts++;
+            throw httpError(500);
+        }, FAST), (error: LLMError) => error instanceof LLMError && error.category === 'server');
+        assert.equal(attempts, 3);
+    });
+
+    it('does not retry errors that waiting will not fix', async () => {
+        for (const [status, category] of [[401, 'auth'], [400, 'invalid-request']] as const) {
+            let attempts = 0;
+            await assert.rejects(withRetry(async () => {
+                attempts++;
+                throw httpError(status);
+            }, FAST), (error: LLMError) => error.category === category);
+            assert.equal(attempts, 1);
+        }
+    });
+
+    it('fails at once when the server asks to wait longer than maxDelayMs', async () => {
+        let attempts = 0;
+        await assert.rejects(withRetry(async () => {
+            attempts++;
+            throw httpError(429, { 'retry-after': '60' });
+        }, FAST), (error: LLMError) => error.category === 'rate-limit');
+        assert.equal(attempts, 1);
+    });
+
+    it('stops waiting when cancelled', async () => {
+        const controller = new AbortController();
+        const pending = withRetry(async () => {
+            throw httpError(503);
+        }, { maxAttempts: 3, baseDelayMs: 10000, maxDelayMs: 10000, signal: controller.signal });
+        setTimeout(() => controller.abort(), 10);
+
+        await assert.rejects(pending, (error: LLMError) => error.category === 'cancelled');
+    });
+});
+
+describe('ConcurrencyLimiter', () => {
+    it('keeps at most limit tasks in flight and starts waiters in order', async () => {
+        const limiter = new ConcurrencyLimiter(2);
+        const started: number[] = [];
+        let active = 0;
+        let maxActive = 0;
+
+        await Promise.all([1, 2, 3, 4, 5].map(id => limiter.run(async () => {
+            started.push(id);
+            active++;
+            maxActive = Math.max(maxActive, active);
+            await new Promise(resolve => setTimeout(resolve, 5));
+            active--;
+        })));
+
+        assert.equal(maxActive, 2);
+        assert.deepEqual(started, [1, 2, 3, 4, 5]);
+    });
+
+    it('drops a cancelled waiter without taking a slot', async () => {
+        const limiter = new ConcurrencyLimiter(1);
+        let release!: () => void;
+        const first = limiter.run(() => new Promise<void>(resolve => { release = resolve; }));
+
+        const controller = new AbortController();
+        const cancelled = limiter.run(async () => 'never', controller.signal);
+        controller.abort();
+        await assert.rejects(cancelled, (error: LLMError) => error.category === 'cancelled');
+
+        const next = limiter.run(async () => 'next');
+        release();
+        await first;
+        assert.equal(await next, 'next');
+    });
+});
+
+describe('OpenAIProvider against a flaky endpoint', () => {
+    // Answers 429, then 503, then a completion
+    const responses = [
+        { status: 429, headers: { 'retry-after-ms': '5' }, body: { error: { message: 'Rate limited', code: 'rate_limit_exceeded' } } },
+        { status: 503, headers: {}, body: { error: { message: 'Overloaded' } } },
+        {
+            status: 200,
+            headers: {},
+            body: {
+                id: 'chatcmpl-test',
+                object: 'chat.completion',
+                created: 0,
+                model: 'test-model',
+                choices: [{ index: 0, finish_reason: 'stop', message: { role: 'assistant', content: 'Hello' } }],
+                usage: { prompt_tokens: 3, completion_tokens: 1, total_tokens: 4 }
+            }
+        }
+    ];
+    let requests = 0;
+    const server = http.createServer((request, response) => {
+        const reply = responses[Math.min(requests++, responses.length - 1)];
+        request.resume();
+        response.writeHead(reply.status, { 'content-type': 'application/json', ...reply.headers });
+        response.end(JSON.stringify(reply.body));
+    });
+    let baseUrl = '';
+
+    before(async () => {
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/v1`;
+    });
+    after(() => new Promise<void>(resolve => server.close(() => resolve())));
+
+    it('retries rate limits and server errors until the completion arrives', async () => {
+        const provider = new OpenAIProvider({ type: 'openai-compatible', model: 'test-model', baseUrl, timeoutMs: 5000 });
+        const categories: string[] = [];
+
+        const result = await withRetry(() => provider.complete({
+            feature: 'quest',
+            operation: 'test',
+            messages: [{ role: 'user', content: 'Hi' }]
+        }), { ...FAST, onRetry: error => categories.push(error.category) });
+
+        assert.equal(result.content, 'Hello');
+        assert.deepEqual(result.usage, { promptTokens: 3, completionTokens: 1 });
+        assert.deepEqual(categories, ['rate-limit', 'server']);
+        assert.equal(requests, 3);
+    });
+});
\ No newline at end of file
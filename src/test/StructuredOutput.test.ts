@@ -0,0 +1,118 @@
+import { after, before, describe, it } from 'node:test';
+import * as assert from 'node:assert/strict';
+import { vscodeStub } from './vscodeStub';
+import { JsonSchema, StructuredOutputError, extractJson, parseStructured } from '../llm/StructuredOutput';
+import { CompletionRequest, CompletionResult, LLMProvider } from '../llm/LLMProvider';
+import { LLMService } from '../llm/LLMService';
+
+const schema: JsonSchema = {
+    type: 'object',
+    required: ['title', 'tags'],
+    properties: {
+        title: { type: 'string', minLength: 1 },
+        tags: { type: 'array', minItems: 1, items: { type: 'string' } }
+    }
+};
+
+// Answers with the given responses in order and keeps the requests it saw
+class ScriptedProvider implements LLMProvider {
+    readonly type = 'mock' as const;
+    readonly model = 'scripted';
+    readonly requests: CompletionRequest[] = [];
+
+    constructor(private responses: string[]) {}
+
+    async complete(request: CompletionRequest): Promise<CompletionResult> {
+        this.requests.push(request);
+        const content = this.responses.shift();
+        if (content === undefined) throw new Error('No scripted response left');
+        return { content, model: this.model, provider: this.type };
+    }
+
+    countTokens(text: string): number {
+        return text.length;
+    }
+}
+
+function createService(provider: LLMProvider): LLMService {
+    const llm = new LLMService();
+    llm.getProvider = () => provider;
+    return llm;
+}
+
+const request: CompletionRequest = {
+    feature: 'quest',
+    operation: 'test.structured',
+    messages: [{ role: 'user', content: 'Describe the change as JSON' }]
+};
+
+describe('extractJson and parseStructured', () => {
+    it('reads JSON inside a code fence', () => {
+        assert.deepEqual(extractJson('Here you go:\n```json\n{"title": "A", "tags": ["x"]}\n```'), { title: 'A', tags: ['x'] });
+    });
+
+    it('ignores prose before and after the payload', () => {
+        const parsed = parseStructured('Sure! {"title": "B", "tags": ["y", "z"]} Let me know if you need more.', schema);
+        assert.deepEqual(parsed, { value: { title: 'B', tags: ['y', 'z'] }, errors: [] });
+    });
+
+    it('keeps braces inside strings from ending the payload', () => {
+        assert.deepEqual(extractJson('Result: {"title": "a } b", "tags": []} done'), { title: 'a } b', tags: [] });
+    });
+
+    it('reports schema errors with their paths', () => {
+        const parsed = parseStructured('{"title": "", "tags": [1]}', schema);
+        assert.equal(parsed.value, undefined);
+        assert.deepEqual(parsed.errors, ['$.title: must not be empty', '$.tags[0]: expected string, got number']);
+    });
+
+    it('reports output without JSON', () => {
+        assert.deepEqual(parseStructured('I cannot help with that.', schema).errors, ['$: Response does not contain valid JSON']);
+    });
+});
+
+describe('LLMService.completeStructured', () => {
+    const getConfiguration = vscodeStub.workspace.getConfiguration;
+    const settings: Record<string, unknown> = { 'ai.retry.maxAttempts': 1, 'ai.maxRepairAttempts': 1 };
+
+    before(() => {
+        vscodeStub.workspace.getConfiguration = () => ({
+            get: (key: string, defaultValue?: unknown) => key in settings ? settings[key] : defaultValue
+        });
+    });
+    after(() => {
+        vscodeStub.workspace.getConfiguration = getConfiguration;
+    });
+
+    it('sends invalid output back with the validation errors and returns the repaired value', async () => {
+        const provider = new ScriptedProvider(['{"title": "C"}', '{"title": "C", "tags": ["fixed"]}']);
+        const value = await createService(provider).completeStructured(request, schema);
+
+        assert.deepEqual(value, { title: 'C', tags: ['fixed'] });
+        assert.equal(provider.requests.length, 2);
+        const repair = provider.requests[1];
+        assert.equal(repair.operation, 'test.structured.repair');
+        assert.deepEqual(repair.messages.slice(0, 2), [request.messages[0], { role: 'assistant', content: '{"title": "C"}' }]);
+        assert.match(repair.messages[2].content, /\$\.tags: required field is missing/);
+    });
+
+    it('fails with the last errors once maxRepairAttempts is used up', async () => {
+        settings['ai.maxRepairAttempts'] = 2;
+        const provider = new ScriptedProvider(['not json', '{"title": 1}', '{"title": "D", "tags": []}']);
+
+        await assert.rejects(createService(provider).completeStructured(request, schema), (error: unknown) => {
+            assert.ok(error instanceof StructuredOutputError);
+            assert.deepEqual(error.errors, ['$.tags: expected at least 1 item(s), got 0']);
+            assert.equal(error.content, '{"title": "D", "tags": []}');
+            return true;
+        });
+        assert.equal(provider.requests.length, 3);
+    });
+
+    it('does not repair valid output', async () => {
+        settings['ai.maxRepairAttempts'] = 1;
+        const provider = new ScriptedProvider(['{"title": "E", "tags": ["ok"]}']);
+        assert.deepEqual(await createService(provider).completeStructured(request, schema), { title: 'E', tags: ['ok'] });
+        assert.equal(provider.requests.length, 1);
+    });
+});
\ No newline at end of file
@@ -0,0 +1,10 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { installVscodeStub } from './vscodeStub';
+
+// Unit tests run in plain Node with node:test, so they need no VS Code download and run in CI
+installVscodeStub();
+
+for (const file of fs.readdirSync(__dirname).filter(name => name.endsWith('.test.js')).sort()) {
+    require(path.join(__dirname, file));
+}
\ No newline at end of file
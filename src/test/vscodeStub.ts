@@ -0,0 +1,46 @@
+const Module = require('module');
+
+/**
+ * Just enough of the vscode API for modules under test to load and run
+ * outside the extension host. Tests change the fields they depend on,
+ * e.g. workspaceFolders, and record what was shown through `messages`.
+ */
+export const vscodeStub = {
+    messages: [] as string[],
+    window: {
+        state: { focused: true },
+        onDidChangeWindowState: () => ({ dispose() {} }),
+        createOutputChannel: () => ({ append() {}, appendLine() {}, show() {}, dispose() {} }),
+        showInformationMessage: (message: string) => vscodeStub.record(message),
+        showWarningMessage: (message: string) => vscodeStub.record(message),
+        showErrorMessage: (message: string) => vscodeStub.record(message),
+        showTextDocument: async () => undefined,
+        showInputBox: async (_options?: unknown): Promise<string | undefined> => undefined,
+        withProgress: async (_options: unknown, task: (progress: unknown, token: unknown) => Promise<unknown>) =>
+            task({ report() {} }, { isCancellationRequested: false, onCancellationRequested: () => ({ dispose() {} }) })
+    },
+    workspace: {
+        workspaceFolders: undefined as Array<{ uri: { fsPath: string } }> | undefined,
+        getConfiguration: () => ({ get: (_key: string, defaultValue?: unknown) => defaultValue }),
+        findFiles: async (_include: string, _exclude?: string, _maxResults?: number): Promise<Array<{ fsPath: string }>> => [],
+        createFileSystemWatcher: () => ({ onDidChange() {}, onDidCreate() {}, onDidDelete() {}, dispose() {} })
+    },
+    Uri: {
+        file: (fsPath: string) => ({ fsPath })
+    },
+    ProgressLocation: { Notification: 15 },
+    record(message: string): Promise<undefined> {
+        vscodeStub.messages.push(message);
+        return Promise.resolve(undefined);
+    }
+};
+
+// Serves vscodeStub to every `import * as vscode from 'vscode'`
+export function installVscodeStub(): void {
+    const resolve = Module._resolveFilename;
+    Module._resolveFilename = function (request: string, ...rest: unknown[]) {
+        return request === 'vscode' ? __filename : resolve.call(this, request, ...rest);
+    };
+    // Tests still import it by name from this module once the stub replaces its exports
+    require.cache[__filename]!.exports = Object.assign(vscodeStub, { vscodeStub });
+}
\ No newline at end of file
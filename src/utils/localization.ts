@@ -112,8 +112,8 @@ export class LocalizationManager {
             
             // Error messages
             'error.openai.not.configured': {
-                en: 'OpenAI API key not configured. Please set qoder.openai.apiKey in settings.',
-                ja: 'OpenAI API キーが設定されていません。設定で qoder.openai.apiKey を設定してください。'
+                en: 'OpenAI API key not configured. Run "Qoder: Manage API Keys" to add it.',
+                ja: 'OpenAI API キーが設定されていません。「Qoder: Manage API Keys」を実行して追加してください。'
             },
             'error.dd.system.not.found': {
                 en: 'DD system not found. Some features will be limited.',